@@ -0,0 +1,670 @@
+//Tar (ustar, with PAX headers for long names and sizes) and zip (deflated,
+//with data descriptors and zip64 when needed) archives, written and read as
+//streams by exportDir and importArchive.
+
+interface ArchiveEntry {
+  name: string; //"/" separated, the directories end with "/"
+  content: ReadableStream<Uint8Array>; //consumed (or cancelled) before the next entry
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const crcTable = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+function crc32(crc: number, data: Uint8Array): number {
+  crc = crc ^ 0xffffffff;
+  for (const b of data) {
+    crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const res = new Uint8Array(parts.reduce((size, p) => size + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    res.set(p, offset);
+    offset += p.length;
+  }
+  return res;
+}
+
+//Reads exact amounts of bytes from a stream, keeping what was read beyond them.
+class ByteReader {
+  #reader: ReadableStreamDefaultReader<Uint8Array>;
+  #buffer: Uint8Array = new Uint8Array(0);
+  #done = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.#reader = stream.getReader();
+  }
+  async #fill(size: number): Promise<boolean> {
+    while (this.#buffer.length < size && !this.#done) {
+      const { done, value } = await this.#reader.read();
+      if (done) {
+        this.#done = true;
+      } else {
+        this.#buffer = concatBytes(this.#buffer, value);
+      }
+    }
+    return this.#buffer.length >= size;
+  }
+  //Exactly size bytes, or null at the end of the stream. The bytes are copied,
+  //the consumers may transfer them.
+  async read(size: number): Promise<Uint8Array | null> {
+    if (!(await this.#fill(size))) {
+      return null;
+    }
+    const res = this.#buffer.slice(0, size);
+    this.#buffer = this.#buffer.subarray(size);
+    return res;
+  }
+  //Up to max bytes (at least one), or null at the end of the stream.
+  async readSome(max: number): Promise<Uint8Array | null> {
+    if (!(await this.#fill(1))) {
+      return null;
+    }
+    const res = this.#buffer.slice(0, max);
+    this.#buffer = this.#buffer.subarray(res.length);
+    return res;
+  }
+  unread(data: Uint8Array): void {
+    this.#buffer = concatBytes(data, this.#buffer);
+  }
+  async cancel(): Promise<void> {
+    await this.#reader.cancel();
+  }
+}
+
+//The writers return the bytes of each entry as they are read from its content.
+interface ArchiveWriter {
+  entry(
+    name: string,
+    size: number,
+    modifiedAt: number,
+    content: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<Uint8Array>;
+  end(): Uint8Array;
+}
+
+function octal(value: number, length: number): string {
+  return value.toString(8).padStart(length - 1, "0") + "\0";
+}
+
+function paxRecord(key: string, value: string): string {
+  const record = ` ${key}=${value}\n`;
+  const size = textEncoder.encode(record).length;
+  //the length counts its own digits
+  let length = size + String(size).length;
+  length = size + String(length).length;
+  return `${length}${record}`;
+}
+
+class TarWriter {
+  #header(name: string, size: number, modifiedAt: number, type: string) {
+    const header = new Uint8Array(512);
+    const put = (value: string, offset: number) =>
+      header.set(textEncoder.encode(value), offset);
+    put(name, 0);
+    put(octal(0o644, 8), 100);
+    put(octal(0, 8), 108);
+    put(octal(0, 8), 116);
+    put(octal(size, 12), 124);
+    put(octal(Math.floor(modifiedAt / 1000), 12), 136);
+    put("        ", 148); //the checksum is computed with spaces in its place
+    put(type, 156);
+    put("ustar\0" + "00", 257);
+    const checksum = header.reduce((sum, b) => sum + b, 0);
+    put(checksum.toString(8).padStart(6, "0") + "\0 ", 148);
+    return header;
+  }
+  #padding(size: number): Uint8Array {
+    return new Uint8Array((512 - size % 512) % 512);
+  }
+  async *entry(
+    name: string,
+    size: number,
+    modifiedAt: number,
+    content: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<Uint8Array> {
+    const nameData = textEncoder.encode(name);
+    //the names that do not fit (or are not ASCII) and the sizes over 8 GB
+    //are given in a PAX header
+    let pax = "";
+    if (nameData.length > 100 || nameData.length != name.length) {
+      pax += paxRecord("path", name);
+    }
+    if (size >= 8 ** 11) {
+      pax += paxRecord("size", String(size));
+    }
+    if (pax) {
+      const paxData = textEncoder.encode(pax);
+      yield this.#header("PaxHeader", paxData.length, modifiedAt, "x");
+      yield paxData;
+      yield this.#padding(paxData.length);
+    }
+    yield this.#header(
+      nameData.length == name.length
+        ? name.slice(0, 100)
+        : name.replace(/[^\x20-\x7e]/g, "_").slice(0, 100),
+      size >= 8 ** 11 ? 0 : size,
+      modifiedAt,
+      "0",
+    );
+    let written = 0;
+    for await (const chunk of content) {
+      written += chunk.length;
+      yield chunk;
+    }
+    if (written != size) {
+      throw new Error(`Size mismatch of ${name} (${written} of ${size}).`);
+    }
+    yield this.#padding(size);
+  }
+  end(): Uint8Array {
+    return new Uint8Array(1024);
+  }
+}
+
+class ZipWriter {
+  #offset = 0;
+  #entries: {
+    name: Uint8Array;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+    time: number;
+    date: number;
+  }[] = [];
+
+  #dosDateTime(modifiedAt: number): { time: number; date: number } {
+    const d = new Date(Math.max(modifiedAt, Date.UTC(1980, 0, 1)));
+    return {
+      time: (d.getHours() << 11) | (d.getMinutes() << 5) |
+        Math.floor(d.getSeconds() / 2),
+      date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) |
+        d.getDate(),
+    };
+  }
+  async *entry(
+    name: string,
+    size: number,
+    modifiedAt: number,
+    content: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<Uint8Array> {
+    const nameData = textEncoder.encode(name);
+    const { time, date } = this.#dosDateTime(modifiedAt);
+    //the compressed size is only known at the end, deflate can grow a bit
+    const zip64 = size >= 0xfff00000;
+    const header = new Uint8Array(30 + nameData.length + (zip64 ? 20 : 0));
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, zip64 ? 45 : 20, true);
+    view.setUint16(6, 0x0808, true); //data descriptor, UTF-8 names
+    view.setUint16(8, 8, true); //deflate
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    if (zip64) {
+      view.setUint32(18, 0xffffffff, true);
+      view.setUint32(22, 0xffffffff, true);
+    }
+    view.setUint16(26, nameData.length, true);
+    view.setUint16(28, zip64 ? 20 : 0, true);
+    header.set(nameData, 30);
+    if (zip64) { //the sizes are in the data descriptor
+      view.setUint16(30 + nameData.length, 0x0001, true);
+      view.setUint16(32 + nameData.length, 16, true);
+    }
+    const offset = this.#offset;
+    this.#offset += header.length;
+    yield header;
+    let crc = 0;
+    let read = 0;
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        crc = crc32(crc, chunk);
+        read += chunk.length;
+        controller.enqueue(chunk);
+      },
+    });
+    let compressedSize = 0;
+    for await (
+      const chunk of (content.pipeThrough(counter) as ReadableStream)
+        .pipeThrough(new CompressionStream("deflate-raw"))
+    ) {
+      compressedSize += chunk.length;
+      yield chunk;
+    }
+    if (read != size) {
+      throw new Error(`Size mismatch of ${name} (${read} of ${size}).`);
+    }
+    const descriptor = new Uint8Array(zip64 ? 24 : 16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, 0x08074b50, true);
+    descriptorView.setUint32(4, crc, true);
+    if (zip64) {
+      descriptorView.setBigUint64(8, BigInt(compressedSize), true);
+      descriptorView.setBigUint64(16, BigInt(size), true);
+    } else {
+      descriptorView.setUint32(8, compressedSize, true);
+      descriptorView.setUint32(12, size, true);
+    }
+    this.#offset += compressedSize + descriptor.length;
+    this.#entries.push({
+      name: nameData,
+      crc: crc,
+      compressedSize: compressedSize,
+      size: size,
+      offset: offset,
+      time: time,
+      date: date,
+    });
+    yield descriptor;
+  }
+  end(): Uint8Array {
+    const records: Uint8Array[] = [];
+    for (const e of this.#entries) {
+      //the values that do not fit in 32 bits go in the zip64 extra field
+      const extra: bigint[] = [];
+      for (const value of [e.size, e.compressedSize, e.offset]) {
+        if (value >= 0xffffffff) {
+          extra.push(BigInt(value));
+        }
+      }
+      const record = new Uint8Array(
+        46 + e.name.length + (extra.length ? 4 + extra.length * 8 : 0),
+      );
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, (3 << 8) | 45, true); //made by unix, for the permissions
+      view.setUint16(6, extra.length ? 45 : 20, true);
+      view.setUint16(8, 0x0808, true);
+      view.setUint16(10, 8, true);
+      view.setUint16(12, e.time, true);
+      view.setUint16(14, e.date, true);
+      view.setUint32(16, e.crc, true);
+      view.setUint32(20, Math.min(e.compressedSize, 0xffffffff), true);
+      view.setUint32(24, Math.min(e.size, 0xffffffff), true);
+      view.setUint16(28, e.name.length, true);
+      view.setUint16(30, extra.length ? 4 + extra.length * 8 : 0, true);
+      view.setUint32(38, (0o100644 << 16) >>> 0, true);
+      view.setUint32(42, Math.min(e.offset, 0xffffffff), true);
+      record.set(e.name, 46);
+      if (extra.length) {
+        const extraOffset = 46 + e.name.length;
+        view.setUint16(extraOffset, 0x0001, true);
+        view.setUint16(extraOffset + 2, extra.length * 8, true);
+        extra.forEach((value, i) =>
+          view.setBigUint64(extraOffset + 4 + i * 8, value, true)
+        );
+      }
+      records.push(record);
+    }
+    const directory = concatBytes(...records);
+    const directoryOffset = this.#offset;
+    const zip64 = this.#entries.length >= 0xffff ||
+      directoryOffset >= 0xffffffff || directory.length >= 0xffffffff;
+    const trailer = new Uint8Array((zip64 ? 56 + 20 : 0) + 22);
+    const view = new DataView(trailer.buffer);
+    let offset = 0;
+    if (zip64) {
+      view.setUint32(0, 0x06064b50, true);
+      view.setBigUint64(4, 44n, true);
+      view.setUint16(12, (3 << 8) | 45, true);
+      view.setUint16(14, 45, true);
+      view.setBigUint64(24, BigInt(this.#entries.length), true);
+      view.setBigUint64(32, BigInt(this.#entries.length), true);
+      view.setBigUint64(40, BigInt(directory.length), true);
+      view.setBigUint64(48, BigInt(directoryOffset), true);
+      view.setUint32(56, 0x07064b50, true);
+      view.setBigUint64(64, BigInt(directoryOffset + directory.length), true);
+      view.setUint32(72, 1, true);
+      offset = 76;
+    }
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 8, Math.min(this.#entries.length, 0xffff), true);
+    view.setUint16(offset + 10, Math.min(this.#entries.length, 0xffff), true);
+    view.setUint32(offset + 12, Math.min(directory.length, 0xffffffff), true);
+    view.setUint32(offset + 16, Math.min(directoryOffset, 0xffffffff), true);
+    return concatBytes(directory, trailer);
+  }
+}
+
+function archiveWriter(format: "tar" | "zip"): ArchiveWriter {
+  return format == "zip" ? new ZipWriter() : new TarWriter();
+}
+
+//A stream of the next bytes of an entry, drained by the readers when its
+//consumer stops early. The reads are serialized, so draining waits for them.
+class EntrySource {
+  #next: () => Promise<Uint8Array | null>;
+  #pending: Promise<unknown> = Promise.resolve();
+  #finished = false;
+
+  constructor(next: () => Promise<Uint8Array | null>) {
+    this.#next = next;
+  }
+  read(): Promise<Uint8Array | null> {
+    const res = this.#pending.then(async () => {
+      if (this.#finished) {
+        return null;
+      }
+      const data = await this.#next();
+      this.#finished = data === null;
+      return data;
+    });
+    this.#pending = res.catch(() => {});
+    return res;
+  }
+  stream(): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const data = await this.read();
+          if (data === null) {
+            controller.close();
+          } else {
+            controller.enqueue(data);
+          }
+        } catch (e) {
+          controller.error(e);
+        }
+      },
+    });
+  }
+  async drain(): Promise<void> {
+    while ((await this.read()) !== null) {
+      //
+    }
+  }
+}
+
+function parseOctal(data: Uint8Array): number {
+  if (data[0] & 0x80) { //base-256, for the sizes over 8 GB
+    let value = 0;
+    for (let i = 1; i < data.length; i++) {
+      value = value * 256 + data[i];
+    }
+    return value;
+  }
+  const text = textDecoder.decode(data).replace(/\0.*$/s, "").trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function cString(data: Uint8Array): string {
+  const end = data.indexOf(0);
+  return textDecoder.decode(end < 0 ? data : data.subarray(0, end));
+}
+
+async function* tarEntries(reader: ByteReader): AsyncGenerator<ArchiveEntry> {
+  let paxPath: string | undefined;
+  let paxSize: number | undefined;
+  let longName: string | undefined;
+  while (true) {
+    const header = await reader.read(512);
+    if (!header || header.every((b) => b == 0)) {
+      return;
+    }
+    let checksum = 0;
+    for (let i = 0; i < 512; i++) {
+      checksum += i >= 148 && i < 156 ? 32 : header[i];
+    }
+    if (checksum != parseOctal(header.subarray(148, 156))) {
+      throw new Error("Invalid tar header.");
+    }
+    const type = String.fromCharCode(header[156]);
+    const size = paxSize ?? parseOctal(header.subarray(124, 136));
+    const prefix = cString(header.subarray(345, 500));
+    const name = paxPath ?? longName ??
+      (prefix
+        ? `${prefix}/${cString(header.subarray(0, 100))}`
+        : cString(header.subarray(0, 100)));
+    const padding = (512 - size % 512) % 512;
+    if (type == "x" || type == "g" || type == "L") {
+      const data = await reader.read(size + padding);
+      if (!data) {
+        throw new Error("Truncated tar archive.");
+      }
+      const text = textDecoder.decode(data.subarray(0, size));
+      if (type == "L") {
+        longName = text.replace(/\0.*$/s, "");
+      } else if (type == "x") {
+        for (const record of text.split("\n")) {
+          const match = /^\d+ ([^=]+)=(.*)$/s.exec(record);
+          if (match?.[1] == "path") {
+            paxPath = match[2];
+          } else if (match?.[1] == "size") {
+            paxSize = parseInt(match[2]);
+          }
+        }
+      }
+      continue;
+    }
+    paxPath = undefined;
+    paxSize = undefined;
+    longName = undefined;
+    let remaining = size;
+    const source = new EntrySource(async () => {
+      if (remaining == 0) {
+        return null;
+      }
+      const data = await reader.readSome(Math.min(remaining, 64 * 1024));
+      if (!data) {
+        throw new Error("Truncated tar archive.");
+      }
+      remaining -= data.length;
+      return data;
+    });
+    if (type == "0" || type == "\0" || type == "7") {
+      yield { name: name, content: source.stream() };
+    } else if (type == "5") {
+      yield {
+        name: name.endsWith("/") ? name : name + "/",
+        content: source.stream(),
+      };
+    } //links and special files are skipped
+    await source.drain();
+    if (padding > 0 && !(await reader.read(padding))) {
+      throw new Error("Truncated tar archive.");
+    }
+  }
+}
+
+async function* zipEntries(reader: ByteReader): AsyncGenerator<ArchiveEntry> {
+  while (true) {
+    const signature = await reader.read(4);
+    if (
+      !signature ||
+      new DataView(signature.buffer, signature.byteOffset).getUint32(0, true) !=
+        0x04034b50
+    ) {
+      return; //the central directory, which repeats the local headers
+    }
+    const header = await reader.read(26);
+    if (!header) {
+      throw new Error("Truncated zip archive.");
+    }
+    const view = new DataView(header.buffer, header.byteOffset, 26);
+    const flags = view.getUint16(2, true);
+    const method = view.getUint16(4, true);
+    let crc = view.getUint32(10, true);
+    let compressedSize = view.getUint32(14, true);
+    const nameLength = view.getUint16(22, true);
+    const extraLength = view.getUint16(24, true);
+    const nameData = await reader.read(nameLength);
+    const extra = await reader.read(extraLength);
+    if (!nameData || !extra) {
+      throw new Error("Truncated zip archive.");
+    }
+    const name = flags & 0x0800 || nameData.every((b) => b < 0x80)
+      ? textDecoder.decode(nameData)
+      : String.fromCharCode(...nameData); //not UTF-8, kept byte by byte
+    let zip64 = false;
+    const extraView = new DataView(
+      extra.buffer,
+      extra.byteOffset,
+      extra.length,
+    );
+    for (let i = 0; i + 4 <= extra.length;) {
+      const id = extraView.getUint16(i, true);
+      const length = extraView.getUint16(i + 2, true);
+      if (id == 0x0001) {
+        zip64 = true;
+        if (compressedSize == 0xffffffff && length >= 16) {
+          compressedSize = Number(extraView.getBigUint64(i + 12, true));
+        }
+      }
+      i += 4 + length;
+    }
+    if (flags & 0x0001) {
+      throw new Error(`Encrypted zip entries are not supported (${name}).`);
+    }
+    if (method != 0 && method != 8) {
+      throw new Error(
+        `Unsupported zip compression method ${method} (${name}).`,
+      );
+    }
+    //with a data descriptor (and no sizes), the data ends where a descriptor
+    //whose compressed size matches the bytes read so far starts
+    const scanning = (flags & 0x0008) != 0 &&
+      (compressedSize == 0 || compressedSize == 0xffffffff);
+    let remaining = compressedSize;
+    let read = 0;
+    let window: Uint8Array = new Uint8Array(0);
+    let scanningDone = false;
+    const descriptorAt = (data: Uint8Array, i: number): number => {
+      const v = new DataView(data.buffer, data.byteOffset, data.length);
+      if (v.getUint32(i, true) != 0x08074b50) {
+        return 0;
+      }
+      if (
+        i + 16 <= data.length && v.getUint32(i + 8, true) == read + i
+      ) {
+        crc = v.getUint32(i + 4, true);
+        return 16;
+      }
+      if (
+        i + 24 <= data.length &&
+        Number(v.getBigUint64(i + 8, true)) == read + i
+      ) {
+        crc = v.getUint32(i + 4, true);
+        return 24;
+      }
+      return 0;
+    };
+    const source = new EntrySource(async () => {
+      if (!scanning) {
+        if (remaining == 0) {
+          return null;
+        }
+        const data = await reader.readSome(Math.min(remaining, 64 * 1024));
+        if (!data) {
+          throw new Error("Truncated zip archive.");
+        }
+        remaining -= data.length;
+        return data;
+      }
+      while (true) {
+        for (let i = 0; i + 16 <= window.length; i++) {
+          const length = descriptorAt(window, i);
+          if (length) {
+            reader.unread(window.subarray(i + length));
+            const data = window.subarray(0, i);
+            window = new Uint8Array(0);
+            read += data.length;
+            scanningDone = true;
+            return data.length > 0 ? data : null;
+          }
+        }
+        if (scanningDone) {
+          return null;
+        }
+        //the last bytes may be the start of the descriptor
+        const keep = Math.min(window.length, 23);
+        const data = window.subarray(0, window.length - keep);
+        const more = await reader.readSome(64 * 1024);
+        if (!more) {
+          throw new Error("Truncated zip archive.");
+        }
+        window = concatBytes(window.subarray(window.length - keep), more);
+        if (data.length > 0) {
+          read += data.length;
+          return data;
+        }
+      }
+    });
+    if (!name.endsWith("/")) {
+      let actualCrc = 0;
+      const checker = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          actualCrc = crc32(actualCrc, chunk);
+          controller.enqueue(chunk);
+        },
+        flush(controller) {
+          if (actualCrc != crc) {
+            controller.error(new Error(`CRC mismatch of ${name}.`));
+          }
+        },
+      });
+      const data = method == 8
+        ? (source.stream() as ReadableStream).pipeThrough(
+          new DecompressionStream("deflate-raw"),
+        )
+        : source.stream();
+      yield { name: name, content: data.pipeThrough(checker) };
+    } else {
+      yield { name: name, content: source.stream() };
+    }
+    await source.drain();
+    if ((flags & 0x0008) && !scanning) { //the descriptor after the known size
+      const first = await reader.read(4);
+      const hasSignature = !!first &&
+        new DataView(first.buffer, first.byteOffset).getUint32(0, true) ==
+          0x08074b50;
+      const rest = (hasSignature ? 0 : -4) + (zip64 ? 20 : 12);
+      if (!first || !(await reader.read(rest))) {
+        throw new Error("Truncated zip archive.");
+      }
+    }
+  }
+}
+
+//The entries of a tar or zip archive (detected by its first bytes).
+async function* archiveEntries(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<ArchiveEntry> {
+  const reader = new ByteReader(stream);
+  try {
+    const head = await reader.read(4);
+    if (!head) {
+      return; //empty
+    }
+    reader.unread(head);
+    if (
+      head[0] == 0x50 && head[1] == 0x4b && head[2] == 3 && head[3] == 4
+    ) {
+      yield* zipEntries(reader);
+      return;
+    }
+    const header = await reader.read(512);
+    if (
+      !header || textDecoder.decode(header.subarray(257, 262)) != "ustar"
+    ) {
+      throw new Error("Unknown archive format, expected tar or zip.");
+    }
+    reader.unread(header);
+    yield* tarEntries(reader);
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+export { archiveEntries, type ArchiveEntry, type ArchiveWriter, archiveWriter };
@@ -0,0 +1,79 @@
+import { archiveEntries, archiveWriter } from "./archive.ts";
+import { assertEquals, assertRejects } from "./dev_deps.ts";
+
+const enc = new TextEncoder();
+
+function stream(data: Uint8Array): ReadableStream<Uint8Array> {
+  return new Blob([data as BlobPart]).stream();
+}
+
+//the bytes of an archive with the entries, written like exportDir does
+async function write(
+  format: "tar" | "zip",
+  entries: { name: string; data: Uint8Array }[],
+): Promise<Uint8Array> {
+  const writer = archiveWriter(format);
+  const parts: Uint8Array[] = [];
+  for (const entry of entries) {
+    for await (
+      const part of writer.entry(
+        entry.name,
+        entry.data.length,
+        Date.UTC(2024, 0, 2, 3, 4, 6),
+        stream(entry.data),
+      )
+    ) {
+      parts.push(part);
+    }
+  }
+  parts.push(writer.end());
+  return new Uint8Array(await new Blob(parts as BlobPart[]).arrayBuffer());
+}
+
+async function read(
+  archive: Uint8Array,
+): Promise<{ name: string; data: Uint8Array }[]> {
+  const res: { name: string; data: Uint8Array }[] = [];
+  for await (const entry of archiveEntries(stream(archive))) {
+    res.push({
+      name: entry.name,
+      data: new Uint8Array(await new Response(entry.content).arrayBuffer()),
+    });
+  }
+  return res;
+}
+
+for (const format of ["tar", "zip"] as const) {
+  Deno.test(`${format} entries are read back as written`, async () => {
+    const entries = [
+      { name: "a.txt", data: enc.encode("a") },
+      { name: "empty.txt", data: new Uint8Array() },
+      { name: `${"long/".repeat(30)}name.txt`, data: enc.encode("long") },
+      { name: "dir/ação.txt", data: enc.encode("not ascii") },
+      {
+        name: "pattern.bin",
+        data: Uint8Array.from({ length: 100_000 }, (_, i) => (i * 7919) % 251),
+      },
+    ];
+    assertEquals(await read(await write(format, entries)), entries);
+  });
+
+  Deno.test(`a ${format} entry of another size is rejected`, async () => {
+    const writer = archiveWriter(format);
+    await assertRejects(async () => {
+      for await (
+        const _ of writer.entry("a.txt", 5, Date.now(), stream(enc.encode("a")))
+      ) {
+        //
+      }
+    });
+  });
+}
+
+Deno.test("an empty stream has no entries", async () => {
+  assertEquals(await read(new Uint8Array()), []);
+});
+
+Deno.test("other formats are rejected", async () => {
+  await assertRejects(() => read(new Uint8Array(1024).fill(1)));
+});
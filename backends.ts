@@ -0,0 +1,881 @@
+import { deserialize, serialize } from "node:v8";
+import { Sha256 } from "./sha256.ts";
+
+//The part of Deno.Kv used by DenoKvFs, a Deno.Kv is itself a backend.
+interface StorageAtomicOperation {
+  check(...checks: Deno.AtomicCheck[]): StorageAtomicOperation;
+  set(
+    key: Deno.KvKey,
+    value: unknown,
+    options?: { expireIn?: number },
+  ): StorageAtomicOperation;
+  delete(key: Deno.KvKey): StorageAtomicOperation;
+  enqueue(value: unknown, options?: { delay?: number }): StorageAtomicOperation;
+  commit(): Promise<Deno.KvCommitResult | Deno.KvCommitError>;
+}
+interface StorageListIterator
+  extends AsyncIterableIterator<Deno.KvEntry<unknown>> {
+  readonly cursor: string; //empty when the listing has no more entries
+}
+interface StorageBackend {
+  get(key: Deno.KvKey): Promise<Deno.KvEntryMaybe<unknown>>;
+  set(
+    key: Deno.KvKey,
+    value: unknown,
+    options?: { expireIn?: number },
+  ): Promise<Deno.KvCommitResult>;
+  delete(key: Deno.KvKey): Promise<void>;
+  list(
+    selector: Deno.KvListSelector,
+    options?: { limit?: number; cursor?: string; reverse?: boolean },
+  ): StorageListIterator;
+  atomic(): StorageAtomicOperation;
+  watch(keys: Deno.KvKey[]): ReadableStream<Deno.KvEntryMaybe<unknown>[]>;
+  listenQueue(
+    handler: (message: unknown) => Promise<void> | void,
+  ): Promise<void>;
+  close(): void;
+}
+
+interface IndexEntry {
+  key: Deno.KvKey;
+  versionstamp: string;
+  expiresAt?: number;
+  value?: unknown; //only in memory, the filesystem backend reads it from the disk
+}
+interface BatchSet {
+  key: Deno.KvKey;
+  value: unknown;
+  expiresAt?: number;
+}
+interface BatchMessage {
+  id: string;
+  value: unknown;
+  deliverAt: number;
+}
+interface Batch {
+  checks: Deno.AtomicCheck[];
+  sets: BatchSet[];
+  deletes: Deno.KvKey[];
+  messages: { value: unknown; delay: number }[];
+}
+
+const maxTimerDelayMillis = 2 ** 31 - 1; //longer delays are rescheduled
+const queueAttempts = 5; //then the message is dropped, like in Deno KV
+
+const textEncoder = new TextEncoder();
+
+//Encodes a key as a string with the order of Deno KV (by part: Uint8Array,
+//string, number, bigint, boolean), so the keys are sorted by comparing strings.
+//Each part is self-delimiting, so the encoding of a prefix is a string prefix.
+function encodeKey(key: Deno.KvKey): string {
+  let res = "";
+  for (const part of key) {
+    if (part instanceof Uint8Array) {
+      res += "\x01" + escapeBytes(part);
+    } else if (typeof part == "string") {
+      res += "\x02" + escapeBytes(textEncoder.encode(part));
+    } else if (typeof part == "number") {
+      res += "\x03" + encodeNumber(part);
+    } else if (typeof part == "bigint") {
+      res += "\x04" + encodeBigInt(part);
+    } else if (typeof part == "boolean") {
+      res += part ? "\x05\x01" : "\x05\x00";
+    } else {
+      throw new Error(`Invalid key part (${String(part)}).`);
+    }
+  }
+  return res;
+}
+
+//The bytes as chars, 0 is escaped as 0 0xff and the end is marked with 0.
+function escapeBytes(bytes: Uint8Array): string {
+  let res = "";
+  for (const b of bytes) {
+    res += b == 0 ? "\x00\xff" : String.fromCharCode(b);
+  }
+  return res + "\x00";
+}
+
+//The bits of the float with the sign flipped (all of them for negatives).
+function encodeNumber(n: number): string {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, n);
+  const negative = (bytes[0] & 0x80) != 0;
+  let res = "";
+  for (let i = 0; i < 8; i++) {
+    const b = negative
+      ? ~bytes[i] & 0xff
+      : (i == 0 ? bytes[i] ^ 0x80 : bytes[i]);
+    res += String.fromCharCode(b);
+  }
+  return res;
+}
+
+//The sign, the length of the hex digits and the digits (complemented for
+//negatives, so larger magnitudes come first).
+function encodeBigInt(n: bigint): string {
+  const digits = (n < 0n ? -n : n).toString(16);
+  if (n >= 0n) {
+    return "\x01" + digits.length.toString(16).padStart(8, "0") + digits;
+  }
+  return "\x00" + (0xffffffff - digits.length).toString(16).padStart(8, "0") +
+    Array.from(digits, (d) => (15 - parseInt(d, 16)).toString(16)).join("");
+}
+
+function toCursor(encoded: string): string {
+  return btoa(encoded);
+}
+
+function fromCursor(cursor: string): string {
+  try {
+    return atob(cursor);
+  } catch {
+    throw new Error(`Invalid cursor (${cursor}).`);
+  }
+}
+
+function isExpired(entry: IndexEntry): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+//The encoded keys sorted, for the listings, and their entries.
+class KeyIndex {
+  #keys: string[] = [];
+  #entries = new Map<string, IndexEntry>();
+
+  #lowerBound(encoded: string): number {
+    let lo = 0;
+    let hi = this.#keys.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.#keys[mid] < encoded) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    return lo;
+  }
+  get(encoded: string): IndexEntry | undefined {
+    return this.#entries.get(encoded);
+  }
+  set(encoded: string, entry: IndexEntry): void {
+    if (!this.#entries.has(encoded)) {
+      this.#keys.splice(this.#lowerBound(encoded), 0, encoded);
+    }
+    this.#entries.set(encoded, entry);
+  }
+  delete(encoded: string): void {
+    if (this.#entries.delete(encoded)) {
+      this.#keys.splice(this.#lowerBound(encoded), 1);
+    }
+  }
+  //The encoded keys of the selector (a snapshot), in the order of the listing.
+  range(
+    selector: Deno.KvListSelector,
+    options: { cursor?: string; reverse?: boolean },
+  ): string[] {
+    let lo = "";
+    let hi = "\uffff"; //the encodings only have chars up to 0xff
+    if ("prefix" in selector) {
+      const prefix = encodeKey(selector.prefix);
+      //the keys beneath it, whose next part starts with a type (1 to 5)
+      lo = prefix + "\x01";
+      hi = prefix + "\x06";
+    }
+    if ("start" in selector && selector.start) {
+      const start = encodeKey(selector.start);
+      lo = start > lo ? start : lo;
+    }
+    if ("end" in selector && selector.end) {
+      const end = encodeKey(selector.end);
+      hi = end < hi ? end : hi;
+    }
+    if (options.cursor) {
+      const after = fromCursor(options.cursor);
+      if (options.reverse) {
+        hi = after < hi ? after : hi;
+      } else {
+        lo = after + "\x00" > lo ? after + "\x00" : lo;
+      }
+    }
+    const keys = this.#keys.slice(this.#lowerBound(lo), this.#lowerBound(hi));
+    return options.reverse ? keys.reverse() : keys;
+  }
+  maxVersionstamp(): string {
+    let max = "";
+    for (const entry of this.#entries.values()) {
+      max = entry.versionstamp > max ? entry.versionstamp : max;
+    }
+    return max;
+  }
+}
+
+//A listing with the cursor semantics of Deno KV: the cursor of the last entry
+//while iterating, and empty when the range ends before the limit.
+class BackendListIterator {
+  #keys: Promise<string[]>;
+  #entry: (encoded: string) => Promise<Deno.KvEntry<unknown> | undefined>;
+  #limit: number;
+  #position = 0;
+  #count = 0;
+  #cursor = "";
+
+  constructor(
+    keys: Promise<string[]>,
+    entry: (encoded: string) => Promise<Deno.KvEntry<unknown> | undefined>,
+    limit: number = Infinity,
+  ) {
+    this.#keys = keys;
+    this.#entry = entry;
+    this.#limit = limit;
+  }
+  get cursor(): string {
+    return this.#cursor;
+  }
+  async next(): Promise<IteratorResult<Deno.KvEntry<unknown>>> {
+    const keys = await this.#keys;
+    while (this.#count < this.#limit && this.#position < keys.length) {
+      const encoded = keys[this.#position++];
+      const entry = await this.#entry(encoded);
+      if (entry) { //it was not deleted meanwhile
+        this.#count++;
+        this.#cursor = toCursor(encoded);
+        return { value: entry, done: false };
+      }
+    }
+    if (this.#count < this.#limit) {
+      this.#cursor = "";
+    }
+    return { value: undefined, done: true };
+  }
+  [Symbol.asyncIterator](): BackendListIterator {
+    return this;
+  }
+}
+
+//Collects the operations that are committed together by the backend. Only the
+//last set or delete of each key is kept, so the sets and the deletes of the
+//batch apply in the order they were called.
+class BackendAtomicOperation {
+  #batch: Batch = { checks: [], sets: [], deletes: [], messages: [] };
+  #mutations = new Map<string, { key: Deno.KvKey; set?: BatchSet }>(); //without set, a delete
+  #commit: (batch: Batch) => Promise<Deno.KvCommitResult | Deno.KvCommitError>;
+
+  constructor(
+    commit: (batch: Batch) => Promise<Deno.KvCommitResult | Deno.KvCommitError>,
+  ) {
+    this.#commit = commit;
+  }
+  check(...checks: Deno.AtomicCheck[]): BackendAtomicOperation {
+    this.#batch.checks.push(...checks);
+    return this;
+  }
+  set(
+    key: Deno.KvKey,
+    value: unknown,
+    options: { expireIn?: number } = {},
+  ): BackendAtomicOperation {
+    const set: BatchSet = { key: key, value: structuredClone(value) }; //like serialized by Deno KV
+    if (options.expireIn !== undefined) {
+      set.expiresAt = Date.now() + options.expireIn;
+    }
+    this.#mutations.set(encodeKey(key), { key: key, set: set });
+    return this;
+  }
+  delete(key: Deno.KvKey): BackendAtomicOperation {
+    this.#mutations.set(encodeKey(key), { key: key });
+    return this;
+  }
+  enqueue(
+    value: unknown,
+    options: { delay?: number } = {},
+  ): BackendAtomicOperation {
+    this.#batch.messages.push({
+      value: structuredClone(value),
+      delay: options.delay || 0,
+    });
+    return this;
+  }
+  commit(): Promise<Deno.KvCommitResult | Deno.KvCommitError> {
+    this.#batch.sets = [];
+    this.#batch.deletes = [];
+    for (const mutation of this.#mutations.values()) {
+      if (mutation.set) {
+        this.#batch.sets.push(mutation.set);
+      } else {
+        this.#batch.deletes.push(mutation.key);
+      }
+    }
+    return this.#commit(this.#batch);
+  }
+}
+
+//The streams of watch, they get the entries again when one of the keys changes.
+class Watchers {
+  #watchers = new Set<
+    { keys: string[]; notify: () => void; close: () => void }
+  >();
+
+  watch(
+    keys: Deno.KvKey[],
+    get: (key: Deno.KvKey) => Promise<Deno.KvEntryMaybe<unknown>>,
+  ): ReadableStream<Deno.KvEntryMaybe<unknown>[]> {
+    let watcher: { keys: string[]; notify: () => void; close: () => void };
+    return new ReadableStream<Deno.KvEntryMaybe<unknown>[]>({
+      start: (controller) => {
+        let pending = Promise.resolve();
+        let last: string | undefined;
+        const notify = () => {
+          pending = pending.then(async () => {
+            const entries = await Promise.all(keys.map((k) => get(k)));
+            const versionstamps = entries.map((e) => e.versionstamp).join();
+            if (versionstamps !== last) {
+              last = versionstamps;
+              try {
+                controller.enqueue(entries);
+              } catch {
+                this.#watchers.delete(watcher); //the stream was closed
+              }
+            }
+          });
+        };
+        const close = () => {
+          try {
+            controller.close();
+          } catch {
+            //
+          }
+        };
+        watcher = { keys: keys.map(encodeKey), notify: notify, close: close };
+        this.#watchers.add(watcher);
+        notify(); //the current entries
+      },
+      cancel: () => {
+        this.#watchers.delete(watcher);
+      },
+    });
+  }
+  notify(changed: Set<string>): void {
+    for (const watcher of this.#watchers) {
+      if (watcher.keys.some((k) => changed.has(k))) {
+        watcher.notify();
+      }
+    }
+  }
+  close(): void {
+    for (const watcher of this.#watchers) {
+      watcher.close();
+    }
+    this.#watchers.clear();
+  }
+}
+
+//Delivers the enqueued messages to the listeners after their delays. A failed
+//delivery is retried a few times. The messages wait while nobody listens.
+class MessageQueue {
+  #messages = new Map<string, BatchMessage & { attempts: number }>();
+  #timers = new Map<string, ReturnType<typeof setTimeout>>();
+  #handlers: ((message: unknown) => Promise<void> | void)[] = [];
+  #closers: (() => void)[] = [];
+  #next = 0; //round robin of the handlers
+  #delivered: (id: string) => Promise<void> | void;
+  #failed: (e: unknown) => void; //the error of a dropped message
+
+  constructor(
+    delivered: (id: string) => Promise<void> | void = () => {},
+    failed: (e: unknown) => void = () => {},
+  ) {
+    this.#delivered = delivered;
+    this.#failed = failed;
+  }
+  add(message: BatchMessage): void {
+    this.#messages.set(message.id, { ...message, ...{ attempts: 0 } });
+    this.#schedule(message.id, message.deliverAt - Date.now());
+  }
+  listen(handler: (message: unknown) => Promise<void> | void): Promise<void> {
+    this.#handlers.push(handler);
+    if (this.#handlers.length == 1) {
+      for (const m of this.#messages.values()) {
+        this.#schedule(m.id, m.deliverAt - Date.now());
+      }
+    }
+    return new Promise((resolve) => this.#closers.push(resolve));
+  }
+  #schedule(id: string, delay: number): void {
+    if (this.#handlers.length == 0 || this.#timers.has(id)) {
+      return;
+    }
+    this.#timers.set(
+      id,
+      setTimeout(() => {
+        this.#timers.delete(id);
+        this.#deliver(id); //concurrent
+      }, Math.min(Math.max(0, delay), maxTimerDelayMillis)),
+    );
+  }
+  async #deliver(id: string): Promise<void> {
+    const message = this.#messages.get(id);
+    if (!message || this.#handlers.length == 0) {
+      return;
+    }
+    if (message.deliverAt > Date.now()) { //beyond the maximum delay of a timer
+      this.#schedule(id, message.deliverAt - Date.now());
+      return;
+    }
+    const handler = this.#handlers[this.#next++ % this.#handlers.length];
+    try {
+      await handler(message.value);
+    } catch (e) {
+      message.attempts++;
+      if (message.attempts < queueAttempts) {
+        this.#schedule(id, message.attempts * 1000);
+        return;
+      }
+      this.#failed(e);
+    }
+    this.#messages.delete(id);
+    await this.#delivered(id);
+  }
+  close(): void {
+    for (const timer of this.#timers.values()) {
+      clearTimeout(timer);
+    }
+    this.#timers.clear();
+    this.#handlers = [];
+    for (const close of this.#closers) {
+      close();
+    }
+    this.#closers = [];
+  }
+}
+
+function nextVersionstamp(current: string): string {
+  return (BigInt("0x" + (current || "0")) + 1n).toString(16).padStart(20, "0");
+}
+
+function failedCheck(
+  index: KeyIndex,
+  checks: Deno.AtomicCheck[],
+): boolean {
+  return checks.some((check) => {
+    const entry = index.get(encodeKey(check.key));
+    const versionstamp = entry && !isExpired(entry) ? entry.versionstamp : null;
+    return versionstamp !== check.versionstamp;
+  });
+}
+
+//Keeps the entries in memory, for tests, caches and short-lived instances.
+class MemoryBackend {
+  #index = new KeyIndex();
+  #versionstamp = "";
+  #watchers = new Watchers();
+  #queue = new MessageQueue(undefined, (e) => this.onError(e));
+  //the error of a queue handler that failed every attempt (the message is dropped)
+  onError: (e: unknown) => void = () => undefined;
+
+  #entry(encoded: string): Deno.KvEntry<unknown> | undefined {
+    const entry = this.#index.get(encoded);
+    if (!entry) {
+      return undefined;
+    }
+    if (isExpired(entry)) {
+      this.#index.delete(encoded);
+      return undefined;
+    }
+    return {
+      key: entry.key,
+      value: structuredClone(entry.value),
+      versionstamp: entry.versionstamp,
+    };
+  }
+  #commit(batch: Batch): Promise<Deno.KvCommitResult | Deno.KvCommitError> {
+    if (failedCheck(this.#index, batch.checks)) {
+      return Promise.resolve({ ok: false });
+    }
+    const versionstamp = this.#versionstamp = nextVersionstamp(
+      this.#versionstamp,
+    );
+    const changed = new Set<string>();
+    for (const key of batch.deletes) {
+      const encoded = encodeKey(key);
+      this.#index.delete(encoded);
+      changed.add(encoded);
+    }
+    for (const set of batch.sets) {
+      const encoded = encodeKey(set.key);
+      this.#index.set(encoded, {
+        key: set.key,
+        value: set.value,
+        versionstamp: versionstamp,
+        expiresAt: set.expiresAt,
+      });
+      changed.add(encoded);
+    }
+    batch.messages.forEach((m, i) =>
+      this.#queue.add({
+        id: `${versionstamp}-${i}`,
+        value: m.value,
+        deliverAt: Date.now() + m.delay,
+      })
+    );
+    this.#watchers.notify(changed);
+    return Promise.resolve({ ok: true, versionstamp: versionstamp });
+  }
+  get(key: Deno.KvKey): Promise<Deno.KvEntryMaybe<unknown>> {
+    return Promise.resolve(
+      this.#entry(encodeKey(key)) ||
+        { key: key, value: null, versionstamp: null },
+    );
+  }
+  async set(
+    key: Deno.KvKey,
+    value: unknown,
+    options: { expireIn?: number } = {},
+  ): Promise<Deno.KvCommitResult> {
+    return await this.atomic().set(key, value, options)
+      .commit() as Deno.KvCommitResult;
+  }
+  async delete(key: Deno.KvKey): Promise<void> {
+    await this.atomic().delete(key).commit();
+  }
+  list(
+    selector: Deno.KvListSelector,
+    options: { limit?: number; cursor?: string; reverse?: boolean } = {},
+  ): StorageListIterator {
+    return new BackendListIterator(
+      Promise.resolve(this.#index.range(selector, options)),
+      (encoded: string) => Promise.resolve(this.#entry(encoded)),
+      options.limit,
+    );
+  }
+  atomic(): StorageAtomicOperation {
+    return new BackendAtomicOperation((batch: Batch) => this.#commit(batch));
+  }
+  watch(keys: Deno.KvKey[]): ReadableStream<Deno.KvEntryMaybe<unknown>[]> {
+    return this.#watchers.watch(keys, (key: Deno.KvKey) => this.get(key));
+  }
+  listenQueue(
+    handler: (message: unknown) => Promise<void> | void,
+  ): Promise<void> {
+    return this.#queue.listen(handler);
+  }
+  close(): void {
+    this.#watchers.close();
+    this.#queue.close();
+  }
+}
+
+//Keeps the entries in a local directory, one file per key (the chunks too),
+//with the keys and their versionstamps indexed in memory. Each commit is
+//written to a journal first, which is replayed if the process stops midway.
+//The directory must be used by one instance at a time.
+class FsBackend {
+  #dir: string;
+  #index = new KeyIndex();
+  #versionstamp = "";
+  #watchers = new Watchers();
+  #queue: MessageQueue;
+  #opened: Promise<void> | undefined;
+  #writing: Promise<unknown> = Promise.resolve(); //the commits run one at a time
+  //the error of a queue handler that failed every attempt (the message is
+  //dropped), or of the removal of an expired entry found by a read
+  onError: (e: unknown) => void = () => undefined;
+
+  constructor(dir: string) {
+    this.#dir = dir.replace(/\/+$/, "");
+    this.#queue = new MessageQueue(async (id: string) => {
+      await this.#writing;
+      await Deno.remove(`${this.#dir}/queue/${id}`).catch(() => {});
+    }, (e) => this.onError(e));
+  }
+  #entryPath(encoded: string): string {
+    const hash = new Sha256().update(
+      Uint8Array.from(encoded, (c) => c.charCodeAt(0)),
+    ).hex();
+    return `${this.#dir}/entries/${hash.slice(0, 2)}/${hash}`;
+  }
+  #open(): Promise<void> {
+    if (!this.#opened) {
+      this.#opened = this.#load();
+    }
+    return this.#opened;
+  }
+  async #load(): Promise<void> {
+    await Deno.mkdir(`${this.#dir}/entries`, { recursive: true });
+    await Deno.mkdir(`${this.#dir}/queue`, { recursive: true });
+    try {
+      const journal = deserialize(
+        await Deno.readFile(`${this.#dir}/journal`),
+      ) as BatchJournal;
+      await this.#write(journal); //the commit may have been written partially
+    } catch {
+      //no journal, or it was not written entirely (the commit did not happen)
+    }
+    await Deno.remove(`${this.#dir}/journal`).catch(() => {});
+    for await (const shard of Deno.readDir(`${this.#dir}/entries`)) {
+      for await (
+        const f of Deno.readDir(`${this.#dir}/entries/${shard.name}`)
+      ) {
+        const path = `${this.#dir}/entries/${shard.name}/${f.name}`;
+        if (f.name.endsWith(".tmp")) { //the journal writes it again
+          await Deno.remove(path).catch(() => {});
+          continue;
+        }
+        const header = await readHeader(path);
+        if (!header) {
+          continue;
+        }
+        if (isExpired(header)) {
+          await Deno.remove(path).catch(() => {});
+          continue;
+        }
+        this.#index.set(encodeKey(header.key), header);
+      }
+    }
+    this.#versionstamp = this.#index.maxVersionstamp();
+    for await (const f of Deno.readDir(`${this.#dir}/queue`)) {
+      try {
+        const message = deserialize(
+          await Deno.readFile(`${this.#dir}/queue/${f.name}`),
+        ) as BatchMessage;
+        this.#versionstamp = message.id.split("-")[0] > this.#versionstamp
+          ? message.id.split("-")[0]
+          : this.#versionstamp;
+        this.#queue.add(message);
+      } catch {
+        await Deno.remove(`${this.#dir}/queue/${f.name}`).catch(() => {});
+      }
+    }
+  }
+  //Writes the files of a journal, replaying it writes the same files again.
+  async #write(journal: BatchJournal): Promise<void> {
+    for (const key of journal.deletes) {
+      await Deno.remove(this.#entryPath(encodeKey(key))).catch(() => {});
+    }
+    for (const set of journal.sets) {
+      const path = this.#entryPath(encodeKey(set.key));
+      await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), {
+        recursive: true,
+      });
+      const header: IndexEntry = {
+        key: set.key,
+        versionstamp: journal.versionstamp,
+      };
+      if (set.expiresAt !== undefined) {
+        header.expiresAt = set.expiresAt;
+      }
+      //renamed over the previous file, so a concurrent read gets one of them
+      await Deno.writeFile(`${path}.tmp`, encodeEntry(header, set.value));
+      await Deno.rename(`${path}.tmp`, path);
+    }
+    for (const message of journal.messages) {
+      await Deno.writeFile(
+        `${this.#dir}/queue/${message.id}`,
+        serialize(message),
+      );
+    }
+  }
+  async #entry(encoded: string): Promise<Deno.KvEntry<unknown> | undefined> {
+    await this.#open();
+    const entry = this.#index.get(encoded);
+    if (!entry) {
+      return undefined;
+    }
+    if (isExpired(entry)) {
+      this.#commit({ //concurrent
+        checks: [{ key: entry.key, versionstamp: entry.versionstamp }],
+        sets: [],
+        deletes: [entry.key],
+        messages: [],
+      }).catch((e) => this.onError(e));
+      return undefined;
+    }
+    let data: Uint8Array;
+    try {
+      data = await Deno.readFile(this.#entryPath(encoded));
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) { //deleted meanwhile
+        return undefined;
+      }
+      throw e;
+    }
+    const { header, value } = decodeEntry(data);
+    return { key: header.key, value: value, versionstamp: header.versionstamp };
+  }
+  #commit(batch: Batch): Promise<Deno.KvCommitResult | Deno.KvCommitError> {
+    const res = this.#writing.then(() => this.#apply(batch));
+    this.#writing = res.catch(() => {});
+    return res;
+  }
+  async #apply(
+    batch: Batch,
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError> {
+    await this.#open();
+    if (failedCheck(this.#index, batch.checks)) {
+      return { ok: false };
+    }
+    const versionstamp = nextVersionstamp(this.#versionstamp);
+    const journal: BatchJournal = {
+      versionstamp: versionstamp,
+      sets: batch.sets,
+      deletes: batch.deletes,
+      messages: batch.messages.map((m, i) => ({
+        id: `${versionstamp}-${i}`,
+        value: m.value,
+        deliverAt: Date.now() + m.delay,
+      })),
+    };
+    const file = await Deno.open(`${this.#dir}/journal`, {
+      write: true,
+      create: true,
+      truncate: true,
+    });
+    try {
+      const data = serialize(journal);
+      let written = 0;
+      while (written < data.length) {
+        written += await file.write(data.subarray(written));
+      }
+      await file.syncData();
+    } finally {
+      file.close();
+    }
+    await this.#write(journal);
+    await Deno.remove(`${this.#dir}/journal`);
+    this.#versionstamp = versionstamp;
+    const changed = new Set<string>();
+    for (const key of batch.deletes) {
+      const encoded = encodeKey(key);
+      this.#index.delete(encoded);
+      changed.add(encoded);
+    }
+    for (const set of batch.sets) {
+      const encoded = encodeKey(set.key);
+      this.#index.set(encoded, {
+        key: set.key,
+        versionstamp: versionstamp,
+        expiresAt: set.expiresAt,
+      });
+      changed.add(encoded);
+    }
+    for (const message of journal.messages) {
+      this.#queue.add(message);
+    }
+    this.#watchers.notify(changed);
+    return { ok: true, versionstamp: versionstamp };
+  }
+  async get(key: Deno.KvKey): Promise<Deno.KvEntryMaybe<unknown>> {
+    return (await this.#entry(encodeKey(key))) ||
+      { key: key, value: null, versionstamp: null };
+  }
+  async set(
+    key: Deno.KvKey,
+    value: unknown,
+    options: { expireIn?: number } = {},
+  ): Promise<Deno.KvCommitResult> {
+    return await this.atomic().set(key, value, options)
+      .commit() as Deno.KvCommitResult;
+  }
+  async delete(key: Deno.KvKey): Promise<void> {
+    await this.atomic().delete(key).commit();
+  }
+  list(
+    selector: Deno.KvListSelector,
+    options: { limit?: number; cursor?: string; reverse?: boolean } = {},
+  ): StorageListIterator {
+    return new BackendListIterator(
+      this.#open().then(() => this.#index.range(selector, options)),
+      (encoded: string) => this.#entry(encoded),
+      options.limit,
+    );
+  }
+  atomic(): StorageAtomicOperation {
+    return new BackendAtomicOperation((batch: Batch) => this.#commit(batch));
+  }
+  watch(keys: Deno.KvKey[]): ReadableStream<Deno.KvEntryMaybe<unknown>[]> {
+    return this.#watchers.watch(keys, (key: Deno.KvKey) => this.get(key));
+  }
+  listenQueue(
+    handler: (message: unknown) => Promise<void> | void,
+  ): Promise<void> {
+    this.#open(); //concurrent, it loads the pending messages
+    return this.#queue.listen(handler);
+  }
+  close(): void {
+    this.#watchers.close();
+    this.#queue.close();
+  }
+}
+
+interface BatchJournal {
+  versionstamp: string;
+  sets: BatchSet[];
+  deletes: Deno.KvKey[];
+  messages: BatchMessage[];
+}
+
+//The length of the header (4 bytes), the header and the value, so the index
+//is loaded without reading the values.
+function encodeEntry(header: IndexEntry, value: unknown): Uint8Array {
+  const headerData = serialize(header);
+  const valueData = serialize(value);
+  const data = new Uint8Array(4 + headerData.length + valueData.length);
+  new DataView(data.buffer).setUint32(0, headerData.length);
+  data.set(headerData, 4);
+  data.set(valueData, 4 + headerData.length);
+  return data;
+}
+
+function decodeEntry(data: Uint8Array): { header: IndexEntry; value: unknown } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerLength = view.getUint32(0);
+  return {
+    header: deserialize(data.subarray(4, 4 + headerLength)) as IndexEntry,
+    value: deserialize(data.subarray(4 + headerLength)),
+  };
+}
+
+async function readHeader(path: string): Promise<IndexEntry | undefined> {
+  const file = await Deno.open(path, { read: true });
+  try {
+    const length = await readExactly(file, 4);
+    if (!length) {
+      return undefined;
+    }
+    const data = await readExactly(
+      file,
+      new DataView(length.buffer).getUint32(0),
+    );
+    return data ? deserialize(data) as IndexEntry : undefined;
+  } catch {
+    return undefined; //written partially, the journal rewrites it
+  } finally {
+    file.close();
+  }
+}
+
+async function readExactly(
+  file: Deno.FsFile,
+  size: number,
+): Promise<Uint8Array | undefined> {
+  const data = new Uint8Array(size);
+  let read = 0;
+  while (read < size) {
+    const n = await file.read(data.subarray(read));
+    if (n === null) {
+      return undefined;
+    }
+    read += n;
+  }
+  return data;
+}
+
+export {
+  FsBackend,
+  MemoryBackend,
+  type StorageAtomicOperation,
+  type StorageBackend,
+  type StorageListIterator,
+};
@@ -0,0 +1 @@
+export { assert, assertEquals, assertRejects } from "jsr:@std/assert@^1.0.7";
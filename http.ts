@@ -0,0 +1,420 @@
+import { DenoKvFs } from "./mod.ts";
+import type {
+  DirList,
+  File,
+  FileStatus,
+  ReadOptions,
+  SaveOptions,
+} from "./mod.ts";
+import { UrlSigner } from "./signing.ts";
+
+interface HttpHandlerOptions {
+  basePath?: string; //URL path under which the files are served, e.g. "/files"
+  validateAccess?: (
+    path: string[],
+    request: Request,
+  ) => Promise<boolean> | boolean;
+  clientId?: (
+    request: Request,
+  ) => Promise<string | number | undefined> | string | number | undefined;
+  readOptions?: Omit<ReadOptions, "path" | "clientId" | "validateAccess">;
+  saveOptions?: Omit<
+    SaveOptions,
+    "path" | "content" | "clientId" | "validateAccess"
+  >;
+  signer?: UrlSigner; //grants the requests with a valid "token" query parameter
+}
+
+const contentTypes: { [ext: string]: string } = {
+  css: "text/css; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  gif: "image/gif",
+  htm: "text/html; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  js: "text/javascript; charset=utf-8",
+  json: "application/json",
+  md: "text/markdown; charset=utf-8",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+  pdf: "application/pdf",
+  png: "image/png",
+  svg: "image/svg+xml",
+  txt: "text/plain; charset=utf-8",
+  wasm: "application/wasm",
+  webm: "video/webm",
+  webp: "image/webp",
+  xml: "application/xml",
+  zip: "application/zip",
+};
+
+//Types that browsers do not run as pages. The others (e.g. text/html or
+//image/svg+xml, which could run scripts in the origin of the handler) are
+//served as attachments.
+const inlineTypes = new Set([
+  "application/json",
+  "application/pdf",
+  "application/wasm",
+  "audio/mpeg",
+  "image/gif",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "text/css",
+  "text/csv",
+  "text/javascript",
+  "text/markdown",
+  "text/plain",
+  "video/mp4",
+  "video/webm",
+]);
+
+//The type saved with PUT (metadata.contentType), or the one of the extension.
+function contentTypeOf(file: File): string {
+  if (file.metadata?.contentType) {
+    return file.metadata.contentType;
+  }
+  const name = file.path[file.path.length - 1] || "";
+  const ext = name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+  return contentTypes[ext] || "application/octet-stream";
+}
+
+//The type of a served file, and whether the browsers may display it.
+function setContentHeaders(headers: Headers, file: File): void {
+  const type = contentTypeOf(file);
+  headers.set("Content-Type", type);
+  headers.set("X-Content-Type-Options", "nosniff");
+  if (!inlineTypes.has(type.split(";")[0].trim().toLowerCase())) {
+    headers.set(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${
+        encodeURIComponent(file.path[file.path.length - 1] || "")
+      }`,
+    );
+  }
+}
+
+//FileStatus errors only carry a message, so the code is chosen by its content.
+function statusCode(status: FileStatus): number {
+  if (status.status == "saving" || status.status == "deleting") {
+    return 409; //the file is being saved or deleted by another request
+  }
+  const msg = status.msg || "";
+  if (msg == "Forbidden") {
+    return 403;
+  }
+  if (msg.startsWith("Precondition failed")) {
+    return 412;
+  }
+  if (msg.includes("not found")) {
+    return 404;
+  }
+  if (msg.includes("concurrent requests")) {
+    return 429;
+  }
+  if (msg.includes("quota")) {
+    return 507;
+  }
+  if (msg.includes("maximum allowed")) {
+    return 413;
+  }
+  if (msg.includes("extension")) {
+    return 415;
+  }
+  return 400;
+}
+
+function json(data: unknown, status: number = 200): Response {
+  return new Response(
+    JSON.stringify(
+      data,
+      (key, value) => key == "content" ? undefined : value, //streams of listings
+    ),
+    {
+      status: status,
+      headers: { "Content-Type": "application/json" },
+    },
+  );
+}
+
+function errorResponse(status: FileStatus): Response {
+  return json(status, statusCode(status));
+}
+
+interface RequestContext {
+  path: string[];
+  isDir: boolean; //a trailing slash addresses a directory
+  clientId: string | number | undefined;
+  validateAccess: ((path: string[]) => Promise<boolean> | boolean) | undefined;
+  readOptions: ReadOptions;
+  saveOptions: NonNullable<HttpHandlerOptions["saveOptions"]>; //with the limits of the token
+}
+
+//The path of the URL (under the basePath) and the options of the request,
+//or the status of a URL out of the basePath (404) or malformed (400).
+async function requestContext(
+  fs: DenoKvFs,
+  options: HttpHandlerOptions,
+  request: Request,
+  url: string = request.url,
+): Promise<RequestContext | 400 | 404> {
+  const basePath = (options.basePath || "").replace(/\/+$/, "");
+  const pathname = new URL(url).pathname;
+  if (!pathname.startsWith(basePath + "/")) {
+    return 404;
+  }
+  const uri = pathname.slice(basePath.length + 1);
+  let path: string[];
+  try {
+    path = uri == "" ? [] : fs.URIComponentToPath(uri.replace(/\/$/, ""));
+  } catch {
+    return 400; //malformed URI component
+  }
+  const clientId = options.clientId
+    ? await options.clientId(request)
+    : undefined;
+  let validateAccess = options.validateAccess
+    ? (p: string[]) => options.validateAccess!(p, request)
+    : undefined;
+  const saveOptions = { ...options.saveOptions };
+  const searchParams = new URL(request.url).searchParams;
+  const token = searchParams.get("token");
+  if (options.signer && token) { //replaces validateAccess
+    const access = await options.signer.verify(token);
+    const operation = UrlSigner.operationOf(request.method);
+    let allowed = !!access && !!operation;
+    //the recursive listings and the archives read the files beneath the path
+    if (searchParams.has("recursive") || searchParams.has("archive")) {
+      allowed = allowed && !!access!.recursive;
+    }
+    if (access?.maxFileSizeBytes !== undefined) {
+      saveOptions.maxFileSizeBytes = Math.min(
+        saveOptions.maxFileSizeBytes ?? Number.MAX_SAFE_INTEGER,
+        access.maxFileSizeBytes,
+      );
+    }
+    if (access?.allowedExtensions && access.allowedExtensions.length > 0) {
+      const configured = saveOptions.allowedExtensions || [];
+      saveOptions.allowedExtensions = configured.length > 0
+        ? configured.filter((ext) => access.allowedExtensions!.includes(ext))
+        : access.allowedExtensions;
+      //an empty list would allow any extension
+      allowed = allowed && saveOptions.allowedExtensions.length > 0;
+    }
+    validateAccess = (p: string[]) =>
+      allowed && UrlSigner.allows(access!, p, operation!);
+  }
+  const readOptions: ReadOptions = {
+    ...options.readOptions,
+    ...{ path: path, clientId: clientId },
+  };
+  if (validateAccess) {
+    readOptions.validateAccess = validateAccess;
+  }
+  return {
+    path: path,
+    isDir: uri == "" || uri.endsWith("/"),
+    clientId: clientId,
+    validateAccess: validateAccess,
+    readOptions: readOptions,
+    saveOptions: saveOptions,
+  };
+}
+
+//Serves the files with GET, HEAD, PUT, POST (multipart forms) and DELETE on
+//URLs built with pathToURIComponent. A trailing slash addresses a directory.
+function createHttpHandler(
+  fs: DenoKvFs,
+  options: HttpHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const context = await requestContext(fs, options, request);
+    if (typeof context == "number") {
+      return new Response(null, { status: context });
+    }
+    const { path, isDir, clientId, validateAccess, readOptions, saveOptions } =
+      context;
+    try {
+      switch (request.method) {
+        case "GET":
+        case "HEAD": {
+          const stat = isDir ? null : await fs.stat(path);
+          if (isDir || stat?.type == "dir") {
+            const format = url.searchParams.get("archive"); //downloads the directory
+            if (format == "tar" || format == "zip") {
+              const name = path[path.length - 1] || "archive";
+              const headers = {
+                "Content-Type": format == "zip"
+                  ? "application/zip"
+                  : "application/x-tar",
+                "Content-Disposition": `attachment; filename*=UTF-8''${
+                  encodeURIComponent(name)
+                }.${format}`,
+              };
+              if (request.method == "HEAD") { //without reading the files
+                if (validateAccess && !(await validateAccess(path))) {
+                  return new Response(null, { status: 403 });
+                }
+                return new Response(null, { headers: headers });
+              }
+              const archive = await fs.exportDir({
+                ...readOptions,
+                ...{ format: format },
+              });
+              if ("status" in archive) {
+                return errorResponse(archive);
+              }
+              return new Response(archive, { headers: headers });
+            }
+            const list: DirList = await fs.readDir({
+              ...readOptions,
+              ...{
+                shallow: !url.searchParams.has("recursive"),
+                pagination: true,
+                cursor: url.searchParams.get("cursor") || undefined,
+              },
+            });
+            const first = list.files[0];
+            if (first && "status" in first && first.status == "error") {
+              return errorResponse(first); //forbidden
+            }
+            return request.method == "HEAD"
+              ? new Response(null, {
+                headers: { "Content-Type": "application/json" },
+              })
+              : json(list);
+          }
+          const file = await fs.read(readOptions);
+          if (!file) {
+            return new Response(null, { status: 404 });
+          }
+          if ("status" in file) {
+            return errorResponse(file);
+          }
+          const response = await fs.rangeResponse(request, file, readOptions);
+          setContentHeaders(response.headers, file);
+          return response;
+        }
+        case "PUT": {
+          if (isDir) {
+            const dir = await fs.mkdir(readOptions);
+            return "status" in dir ? errorResponse(dir) : json(dir, 201);
+          }
+          //before the conditions, which would tell whether the file exists
+          if (validateAccess && !(await validateAccess(path))) {
+            return new Response(null, { status: 403 });
+          }
+          const stat = await fs.stat(path);
+          const existed = stat?.type == "file";
+          //e.g. "If-None-Match: *" to only create, or "If-Match" to not overwrite changes
+          const condition = DenoKvFs.evaluateConditions(
+            request,
+            existed ? stat.file : null,
+          );
+          if (condition) {
+            return new Response(null, { status: condition });
+          }
+          const fileOptions: SaveOptions = {
+            ...saveOptions,
+            ...{ path: path, content: request.body || "", clientId: clientId },
+          };
+          if (validateAccess) {
+            fileOptions.validateAccess = validateAccess;
+          }
+          const ifMatch = request.headers.get("If-Match");
+          if (ifMatch && !ifMatch.includes(",")) { //checked again atomically
+            fileOptions.ifMatch = ifMatch;
+          }
+          if (request.headers.has("Content-Type")) {
+            fileOptions.metadata = {
+              ...fileOptions.metadata,
+              ...{ contentType: request.headers.get("Content-Type") },
+            };
+          }
+          const res = await fs.save(fileOptions);
+          if ("status" in res) {
+            return errorResponse(res);
+          }
+          return json(res, existed ? 200 : 201);
+        }
+        case "POST": {
+          if (
+            !request.headers.get("Content-Type")?.startsWith(
+              "multipart/form-data",
+            )
+          ) {
+            return new Response(null, { status: 415 });
+          }
+          //the files of the form are saved in the directory, by their names
+          const res: { [field: string]: File | FileStatus } = {};
+          for (const [field, value] of (await request.formData()).entries()) {
+            if (typeof value == "string") {
+              continue;
+            }
+            const fileOptions: SaveOptions = {
+              ...saveOptions,
+              ...{
+                path: [...path, value.name],
+                content: value.stream(),
+                clientId: clientId,
+                metadata: {
+                  ...saveOptions.metadata,
+                  ...(value.type ? { contentType: value.type } : {}),
+                },
+              },
+            };
+            if (validateAccess) {
+              fileOptions.validateAccess = validateAccess;
+            }
+            res[field] = await fs.save(fileOptions);
+          }
+          const error = Object.values(res).find((r) => "status" in r) as
+            | FileStatus
+            | undefined;
+          return json(res, error ? statusCode(error) : 201);
+        }
+        case "DELETE": {
+          if (isDir && path.length == 0) {
+            return json({ msg: "The root directory cannot be deleted." }, 403);
+          }
+          if (isDir) {
+            const errors = await fs.deleteDir(readOptions);
+            return errors.length > 0
+              ? json(errors, statusCode(errors[0]))
+              : new Response(null, { status: 204 });
+          }
+          if (validateAccess && !(await validateAccess(path))) {
+            return new Response(null, { status: 403 });
+          }
+          if ((await fs.stat(path))?.type != "file") {
+            return new Response(null, { status: 404 });
+          }
+          const status = await fs.delete(readOptions);
+          return status
+            ? errorResponse(status)
+            : new Response(null, { status: 204 });
+        }
+        default:
+          return new Response(null, {
+            status: 405,
+            headers: { "Allow": "GET, HEAD, PUT, POST, DELETE" },
+          });
+      }
+    } catch (e) {
+      return json({ msg: (e as Error).message || JSON.stringify(e) }, 500);
+    }
+  };
+}
+
+export {
+  contentTypeOf,
+  createHttpHandler,
+  errorResponse,
+  type HttpHandlerOptions,
+  json,
+  requestContext,
+  setContentHeaders,
+  statusCode,
+};
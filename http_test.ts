@@ -0,0 +1,131 @@
+import { DenoKvFs, MemoryBackend } from "./mod.ts";
+import { createHttpHandler, type HttpHandlerOptions } from "./http.ts";
+import { UrlSigner } from "./signing.ts";
+import { assertEquals } from "./dev_deps.ts";
+
+function setup(options: HttpHandlerOptions = {}): {
+  fs: DenoKvFs;
+  handler: (request: Request) => Promise<Response>;
+} & AsyncDisposable {
+  const kv = new MemoryBackend();
+  const fs = new DenoKvFs(kv);
+  return {
+    fs: fs,
+    handler: createHttpHandler(fs, { ...options, ...{ basePath: "/files" } }),
+    async [Symbol.asyncDispose]() {
+      await fs.close();
+      kv.close();
+    },
+  };
+}
+
+Deno.test("a recursive delete of the root is rejected", async () => {
+  await using env = setup();
+  const { fs, handler } = env;
+  await fs.save({ path: ["d", "a.txt"], content: "a" });
+  const res = await handler(
+    new Request("http://x/files/", { method: "DELETE" }),
+  );
+  await res.body?.cancel();
+  assertEquals(res.status, 403);
+  assertEquals((await fs.stat(["d", "a.txt"]))?.type, "file");
+});
+
+Deno.test("active content is served as an attachment", async () => {
+  await using env = setup();
+  const { fs, handler } = env;
+  await fs.save({ path: ["page.html"], content: "<script></script>" });
+  await fs.save({ path: ["image.png"], content: "png" });
+  const page = await handler(new Request("http://x/files/page.html"));
+  await page.body?.cancel();
+  assertEquals(page.headers.get("X-Content-Type-Options"), "nosniff");
+  assertEquals(
+    page.headers.get("Content-Disposition"),
+    "attachment; filename*=UTF-8''page.html",
+  );
+  const image = await handler(new Request("http://x/files/image.png"));
+  await image.body?.cancel();
+  assertEquals(image.headers.get("Content-Type"), "image/png");
+  assertEquals(image.headers.get("Content-Disposition"), null);
+});
+
+Deno.test("a token for a directory alone does not list the files beneath it", async () => {
+  const signer = new UrlSigner("secret");
+  await using env = setup({ signer: signer });
+  const { fs, handler } = env;
+  await fs.save({ path: ["d", "e", "a.txt"], content: "a" });
+  const token = await signer.sign({ path: ["d"], operation: "read" });
+  const shallow = await handler(
+    new Request(`http://x/files/d/?token=${token}`),
+  );
+  await shallow.body?.cancel();
+  assertEquals(shallow.status, 200);
+  for (const query of ["recursive", "archive=tar"]) {
+    const res = await handler(
+      new Request(`http://x/files/d/?${query}&token=${token}`),
+    );
+    await res.body?.cancel();
+    assertEquals(res.status, 403);
+  }
+  const recursive = await signer.sign({
+    path: ["d"],
+    operation: "read",
+    recursive: true,
+  });
+  const res = await handler(
+    new Request(`http://x/files/d/?archive=tar&token=${recursive}`),
+  );
+  await res.body?.cancel();
+  assertEquals(res.status, 200);
+});
+
+Deno.test("HEAD of an archive checks the access without reading the files", async () => {
+  let checked = 0;
+  await using env = setup({
+    validateAccess: (path) => {
+      checked++;
+      return path.length == 1;
+    },
+  });
+  const { fs, handler } = env;
+  await fs.save({ path: ["d", "a.txt"], content: "a" });
+  const res = await handler(
+    new Request("http://x/files/d/?archive=zip", { method: "HEAD" }),
+  );
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("Content-Type"), "application/zip");
+  assertEquals(checked, 1);
+  const forbidden = await handler(
+    new Request("http://x/files/?archive=zip", { method: "HEAD" }),
+  );
+  assertEquals(forbidden.status, 403);
+});
+
+Deno.test("PUT and DELETE without access do not tell whether the file exists", async () => {
+  await using env = setup({ validateAccess: (path) => path[0] != "private" });
+  const { fs, handler } = env;
+  await fs.save({ path: ["private", "a.txt"], content: "a" });
+  for (const name of ["a.txt", "missing.txt"]) {
+    const url = `http://x/files/private/${name}`;
+    for (
+      const request of [
+        new Request(url, { method: "DELETE" }),
+        new Request(url, {
+          method: "PUT",
+          headers: { "If-None-Match": "*" },
+          body: "b",
+        }),
+        new Request(url, {
+          method: "PUT",
+          headers: { "If-Match": '"other"' },
+          body: "b",
+        }),
+      ]
+    ) {
+      const res = await handler(request);
+      await res.body?.cancel();
+      assertEquals(res.status, 403);
+    }
+  }
+  assertEquals((await fs.stat(["private", "a.txt"]))?.type, "file");
+});
@@ -6,6 +6,9 @@ cel: +55 (41) 99999-4664
 */
 
 import { delay } from "./deps.ts";
+import { Sha256 } from "./sha256.ts";
+import type { StorageAtomicOperation, StorageBackend } from "./backends.ts";
+import { archiveEntries, archiveWriter } from "./archive.ts";
 
 interface SaveOptions {
   path: string[];
@@ -17,6 +20,23 @@ interface SaveOptions {
   maxClientIdConcurrentReqs?: number;
   maxFileSizeBytes?: number;
   allowedExtensions?: string[];
+  deduplicate?: boolean; //chunks are stored by SHA-256 and shared with other files
+  chunkChecksums?: boolean; //also stores the SHA-256 of each chunk
+  compression?: "gzip" | "deflate"; //compresses the content before splitting it into chunks
+  expiresAt?: number; //timestamp after which the file is treated as missing and deleted
+  ttlMs?: number; //alternative to expiresAt, relative to the saving time
+  ifMatch?: string; //ETag of the file being replaced ("*" for any), fails if it changed
+}
+//A quota with a path limits the files under it, otherwise it limits the files
+//saved by the clientId.
+interface Quota {
+  path?: string[]; //not empty
+  maxBytes?: number;
+  maxFiles?: number;
+}
+interface Usage {
+  size: number;
+  filesCount: number;
 }
 
 interface ReadOptions {
@@ -28,25 +48,154 @@ interface ReadOptions {
   maxClientIdConcurrentReqs?: number;
   pagination?: boolean;
   cursor?: string;
+  start?: number; //first byte to read (inclusive)
+  end?: number; //last byte to read (inclusive, as in the HTTP Range header)
+  verify?: boolean; //the content stream errors if the data does not match its checksums
+  decompress?: boolean; //false returns the stored bytes of compressed files (e.g. for "Content-Encoding: gzip")
+  shallow?: boolean; //readDir returns only the immediate files, with the subdirectories in "dirs"
+  version?: string; //read and restoreVersion: a previous version (see listVersions)
+  trash?: boolean; //delete and deleteDir: moves the files to the trash, keeping their chunks
+}
+interface MoveOptions {
+  path: string[]; //source
+  to: string[]; //destination
+  chunksPerSecond?: number;
+  maxDirEntriesPerSecond?: number;
+  clientId?: string | number;
+  validateAccess?: (path: string[]) => Promise<boolean> | boolean; //checked for both paths
+  maxClientIdConcurrentReqs?: number;
+  allowedExtensions?: string[]; //checked for the destination
+}
+interface ExportOptions {
+  path: string[]; //the directory
+  format?: "tar" | "zip"; //tar by default
+  chunksPerSecond?: number;
+  maxDirEntriesPerSecond?: number;
+  clientId?: string | number;
+  validateAccess?: (path: string[]) => Promise<boolean> | boolean;
+  maxClientIdConcurrentReqs?: number;
+  maxFileSizeBytes?: number; //larger files are left out of the archive
+  allowedExtensions?: string[]; //files with other extensions are left out of the archive
+}
+//path is where the archive is unpacked, the other options are used to save
+//each file (with the metadata of the manifest merged over metadata).
+type ImportOptions = Omit<SaveOptions, "content" | "ifMatch">;
+type IndexValue = string | number | bigint | boolean;
+interface QueryOptions {
+  field: string; //one of the indexedFields
+  equals?: IndexValue;
+  gt?: IndexValue;
+  gte?: IndexValue;
+  lt?: IndexValue;
+  lte?: IndexValue;
+  reverse?: boolean; //descending order of the field value
+  path?: string[]; //only the files under this path
+  chunksPerSecond?: number;
+  maxDirEntriesPerSecond?: number;
+  clientId?: string | number;
+  validateAccess?: (path: string[]) => Promise<boolean> | boolean;
+  maxClientIdConcurrentReqs?: number;
+  pagination?: boolean;
+  cursor?: string;
+}
+interface UploadOptions {
+  path: string[];
+  size?: number; //total size in bytes, if known in advance
+  metadata?: Record<string, any>;
+  expiresInMillis?: number; //abandoned uploads are discarded after it
+  validateAccess?: (path: string[]) => Promise<boolean> | boolean;
+  maxFileSizeBytes?: number;
+  allowedExtensions?: string[];
+  clientId?: string | number; //owner of the file, for the quotas
+}
+interface UploadChunkOptions {
+  id: string;
+  offset: number; //must be the current offset of the upload
+  content: ReadableStream | Uint8Array | string;
+  chunksPerSecond?: number;
+  clientId?: string | number;
+  validateAccess?: (path: string[]) => Promise<boolean> | boolean;
+  maxClientIdConcurrentReqs?: number;
+}
+interface UploadPartOptions {
+  id: string;
+  part: number; //the parts are joined in the order of their numbers
+  content: ReadableStream | Uint8Array | string;
+  chunksPerSecond?: number;
+  clientId?: string | number;
+  validateAccess?: (path: string[]) => Promise<boolean> | boolean;
+  maxClientIdConcurrentReqs?: number;
+}
+//A part of an upload, stored in ["deno_kv_fs", "upload_parts", id, part].
+interface UploadPart {
+  part: number;
+  version: string; //of its chunks, under the URIComponent of the upload
+  size: number;
+  checksum: string; //SHA-256 of its content
+}
+interface FinishUploadOptions extends Omit<ReadOptions, "path"> {
+  parts?: number[]; //the parts to join (all by default), the others are discarded
+}
+interface Upload {
+  id: string;
+  path: string[];
+  URIComponent: string;
+  offset: number; //bytes received so far
+  size?: number;
+  metadata: Record<string, any>;
+  version: string;
+  maxFileSizeBytes: number;
+  expiresAt: number;
+  keyId?: string;
+  clientId?: string | number;
 }
 const defaultSaveOptions = {
   chunksPerSecond: Number.MAX_SAFE_INTEGER,
   maxFileSizeBytes: Number.MAX_SAFE_INTEGER,
   allowedExtensions: [],
   clientId: undefined,
-  validateAccess: (path: string[]) => true,
+  validateAccess: (_path: string[]) => true,
   maxClientIdConcurrentReqs: Number.MAX_SAFE_INTEGER,
 };
+const defaultUploadOptions = {
+  expiresInMillis: 24 * 60 * 60 * 1000,
+  maxFileSizeBytes: Number.MAX_SAFE_INTEGER,
+  allowedExtensions: [],
+  validateAccess: (_path: string[]) => true,
+};
 const defaultReadOptions = {
   chunksPerSecond: Number.MAX_SAFE_INTEGER,
   maxDirEntriesPerSecond: Number.MAX_SAFE_INTEGER,
   clientId: undefined,
-  validateAccess: (path: string[]) => true,
+  validateAccess: (_path: string[]) => true,
   maxClientIdConcurrentReqs: Number.MAX_SAFE_INTEGER,
 };
+const defaultExportOptions = {
+  ...defaultReadOptions,
+  format: "tar" as const,
+  maxFileSizeBytes: Number.MAX_SAFE_INTEGER,
+  allowedExtensions: [],
+};
+//The last entry of the exported archives, read back by importArchive.
+const archiveManifestName = "deno_kv_fs.manifest.json";
+interface ArchiveManifestEntry {
+  name: string; //of the entry in the archive
+  path: string[]; //relative to the exported directory
+  size: number;
+  checksum?: string;
+  metadata?: Record<string, unknown>;
+  createdAt?: number;
+  updatedAt?: number;
+}
 interface SaveResult {
   flags: string[];
   size: number;
+  checksum: string;
+  chunkChecksums: boolean;
+  storedSize?: number;
+  compression?: "gzip" | "deflate";
+  encryption?: "AES-GCM";
+  keyId?: string;
 }
 interface File {
   path: string[];
@@ -55,42 +204,173 @@ interface File {
   content?: ReadableStream<Uint8Array>;
   URIComponent?: string;
   metadata?: Record<string, any>;
+  version?: string; //chunks are stored in ["deno_kv_fs", "chunks", URIComponent, version, n]
+  checksum?: string; //SHA-256 of the content
+  chunkChecksums?: boolean; //stored in ["deno_kv_fs", "checksums", URIComponent, version, n]
+  compression?: "gzip" | "deflate";
+  storedSize?: number; //size of the compressed content, "size" is the original one
+  encryption?: "AES-GCM"; //each chunk is stored as IV + ciphertext + tag
+  keyId?: string;
+  clientId?: string | number; //owner of the file, for the quotas
+  createdAt?: number;
+  updatedAt?: number; //when the content was last saved (Last-Modified)
+  etag?: string; //quoted SHA-256 of the content
+  replacedAt?: number; //only in the versions returned by listVersions
+  expiresAt?: number;
+  tier?: string; //where the chunks are stored (a key of tiers), the primary KV when undefined
+  pinnedTier?: string; //the tier the migrator keeps the file in, instead of the rules
+}
+//Previous versions are kept up to maxVersions and while newer than maxAgeMillis.
+interface VersionPolicy {
+  maxVersions?: number;
+  maxAgeMillis?: number;
+}
+//The files that match all the conditions of a rule are moved to its tier, the
+//first matching rule wins. The files that match none go back to the primary KV.
+interface TieringRule {
+  tier: string; //a key of tiers, or "primary"
+  path?: string[]; //only the files under the path
+  minSizeBytes?: number;
+  minIdleMillis?: number; //since the last read (or the last save)
+}
+interface TrashItem {
+  id: string; //time-sortable, the items are listed in deletion order
+  path: string[]; //original path
+  deletedAt: number;
+  expiresAt: number; //purged by emptyTrash({ expiredOnly: true }) after it
+  file: File;
+}
+interface ChangeEvent {
+  cursor: string; //watch resumes after it
+  type: "created" | "updated" | "deleted" | "moved";
+  path: string[];
+  URIComponent: string;
+  from?: string[]; //the path before a move
+  size: number;
+  metadata: Record<string, any>;
+  version?: string;
+  at: number;
 }
 interface DirList {
   files: (File | FileStatus)[];
+  dirs?: Dir[]; //only in shallow listings
   size: number;
   cursor?: string;
 }
+interface Dir {
+  path: string[];
+  URIComponent: string;
+  size: number; //of all the files beneath it
+  filesCount: number; //of all the files beneath it
+  explicit: boolean; //created by mkdir, it exists while empty
+}
+type Stat = { type: "file"; file: File } | { type: "dir"; dir: Dir };
 interface FileStatus {
   URIComponent: string;
   path: string[];
   progress: number;
-  status: "saving" | "deleting" | "error";
+  status: "saving" | "deleting" | "error" | "exporting" | "importing"; //the last two are of a directory
   msg?: string;
+  clientId?: string | number; //of the operation in progress
+  bytesPerSecond?: number; //since the operation started
+  totalBytes?: number; //when known in advance
+  etaMillis?: number; //estimated time to finish, when totalBytes is known
+}
+interface EncryptionKey {
+  id: string; //stored in the files, to find the key again when they are read
+  key: CryptoKey; //AES-GCM
+}
+//Returns the current key of a path when "keyId" is undefined (undefined means
+//no encryption), or the key with that id.
+type KeyProvider = (
+  path: string[],
+  keyId?: string,
+) => Promise<EncryptionKey | undefined> | EncryptionKey | undefined;
+interface DeduplicationStats {
+  chunks: number; //distinct chunks stored
+  storedBytes: number;
+  referencedBytes: number; //bytes the files would use without deduplication
+  savedBytes: number;
+}
+//References to a deduplicated chunk, stored in ["deno_kv_fs", "chunk_refs", hash].
+interface ChunkRefs {
+  count: number;
+  size: number;
+}
+//Lease on a file, shared by all the instances that use the same database.
+interface FileLock {
+  owner: string;
+  path: string[];
+  status: "saving" | "deleting";
+  progress: number;
+  expiresAt: number;
+  clientId?: string | number; //of the operation, in the statuses of the lock
 }
 class DenoKvFs {
   #enc = new TextEncoder();
   static _dec: TextDecoder = new TextDecoder();
   #chunkSize: number = 65536;
+  #encryptionOverhead: number = 28; //AES-GCM IV (12 bytes) and tag (16 bytes)
   #maxPageSize: number = 1000;
   #oneSecondDelayMillis: number = 1000;
-  #toChunks(arr: Uint8Array) {
+  #leaseMillis: number = 30000; //renewed by the heartbeat every third of it
+  #instanceId: string = crypto.randomUUID();
+  #heartbeat: ReturnType<typeof setInterval> | undefined;
+  #readers: Set<Deno.KvKey> = new Set();
+  #expiryWorker: boolean = false;
+  #maxQueueDelayMillis: number = 30 * 24 * 60 * 60 * 1000; //limit of kv.enqueue
+  #preconditionFailed: string =
+    "Precondition failed, the file was changed by another request.";
+  #primaryTier: string = "primary";
+  #accessResolutionMillis: number = 60 * 1000; //reads are recorded at most once per minute
+  #touchedFiles: Map<string, number> = new Map();
+  #tierMigrator: ReturnType<typeof setInterval> | undefined;
+  #keyRotations: Set<string> = new Set(); //URIComponents of the running ones
+  #changeShards: number = 8; //heads of the change log (watch takes up to 10 keys)
+  #tasks: Set<Promise<unknown>> = new Set(); //the concurrent operations, awaited by close
+  #ownsKv: boolean = false; //opened by #initKv, so closed by close
+  #toChunks(arr: Uint8Array, chunkSize: number = this.#chunkSize) {
     return Array.from(
-      { length: Math.ceil(arr.length / this.#chunkSize) },
-      (v: any, i: number) =>
-        arr.slice(i * this.#chunkSize, i * this.#chunkSize + this.#chunkSize),
+      { length: Math.ceil(arr.length / chunkSize) },
+      (_: unknown, i: number) =>
+        arr.slice(i * chunkSize, i * chunkSize + chunkSize),
     );
   }
-  #kv: Deno.Kv | undefined;
+  #kv: StorageBackend | undefined;
   #clientsReqsMap: { [key: string | number]: number } = {};
   #savingFiles: { [key: string]: number } = {};
   #deletingFiles: { [key: string]: number } = {};
+  #progressInfo: {
+    [key: string]: {
+      startedAt: number;
+      clientId?: string | number;
+      totalBytes?: number;
+    };
+  } = {};
   onFileProgress: (status: FileStatus) => void;
+  keyProvider: KeyProvider | undefined; //enables the encryption of the chunks
+  indexedFields: string[]; //metadata fields that can be queried ("a.b" for nested ones)
+  versionPolicy: ((path: string[]) => VersionPolicy | undefined) | undefined; //enables the version history
+  trashRetentionMillis: number;
+  changeRetentionMillis: number; //how long the change log of watch is kept
+  quotaPolicy:
+    | ((path: string[], clientId?: string | number) => Quota[] | undefined)
+    | undefined;
+  tiers: { [name: string]: StorageBackend }; //secondary stores of the chunks
+  tieringRules: TieringRule[];
 
-  constructor(kv: Deno.Kv | undefined = undefined) {
+  constructor(kv: StorageBackend | undefined = undefined) {
     this.#kv = kv;
-    this.#deleteUnresolvedFiles(); //without await, it is necessary to run concurrently
-    this.onFileProgress = (status: FileStatus) => undefined;
+    this.#concurrent(this.#deleteUnresolvedFiles());
+    this.onFileProgress = (_status: FileStatus) => undefined;
+    this.keyProvider = undefined;
+    this.indexedFields = [];
+    this.versionPolicy = undefined;
+    this.trashRetentionMillis = 30 * 24 * 60 * 60 * 1000; //30 days
+    this.changeRetentionMillis = 24 * 60 * 60 * 1000; //1 day
+    this.quotaPolicy = undefined;
+    this.tiers = {};
+    this.tieringRules = [];
   }
   static async readStream(stream: ReadableStream): Promise<Uint8Array> {
     return new Uint8Array(await new Response(stream).arrayBuffer());
@@ -101,33 +381,51 @@ class DenoKvFs {
     );
   }
 
+  //The requests of the client in this instance.
   getClientReqs(clientId: string | number): number {
     return this.#clientsReqsMap[clientId] || 0;
   }
+  //The files being saved or deleted by this instance.
   getAllFilesStatuses(): FileStatus[] {
-    let res: FileStatus[] = [];
-    for (const URIComponent in this.#savingFiles) {
-      res.push({
-        URIComponent: URIComponent,
-        path: this.URIComponentToPath(URIComponent),
-        progress: this.#savingFiles[URIComponent],
-        status: "saving",
-      });
-    }
-    for (const URIComponent in this.#deletingFiles) {
-      res.push({
-        URIComponent: URIComponent,
-        path: this.URIComponentToPath(URIComponent),
-        progress: this.#deletingFiles[URIComponent],
-        status: "deleting",
-      });
+    const res: FileStatus[] = [];
+    for (
+      const URIComponent of [
+        ...Object.keys(this.#savingFiles),
+        ...Object.keys(this.#deletingFiles),
+      ]
+    ) {
+      res.push(this.#fileStatus(URIComponent)!);
     }
     return res;
   }
+  //Counts the requests of all the instances that share the database.
+  async countClientReqs(clientId: string | number): Promise<number> {
+    if (!clientId) {
+      return 0;
+    }
+    await this.#initKv();
+    let total = 0;
+    for await (
+      const c of this.#kv!.list({ prefix: ["deno_kv_fs", "clients", clientId] })
+    ) {
+      const lease = c.value as { count: number; expiresAt: number };
+      if (lease.expiresAt > Date.now()) {
+        total += lease.count;
+      }
+    }
+    return total;
+  }
+  //The files being saved or deleted by all the instances.
+  async listFilesStatuses(): Promise<FileStatus[]> {
+    return Array.from((await this.#lockStatuses([])).values());
+  }
   //{cursor: "xxx", limit:1000} must be the last search parameter in the list.
+  //The entries get the cursor that follows them at the end of each page, or
+  //always with everyCursor (to resume after any entry).
   static async *pagedListIterator(
     listParams: any[],
-    kv: Deno.Kv,
+    kv: StorageBackend,
+    everyCursor: boolean = false,
   ): AsyncGenerator<any> {
     //@ts-ignore
     let entries = kv.list(...listParams);
@@ -150,8 +448,11 @@ class DenoKvFs {
       }
       if (value) {
         count++;
-        if (count == listParams[listParams.length - 1]["limit"]) {
+        const pageEnd = count == listParams[listParams.length - 1]["limit"];
+        if (pageEnd) {
           count = 0;
+        }
+        if (pageEnd || everyCursor) {
           //@ts-ignore
           value.cursor = entries.cursor;
         }
@@ -159,6 +460,89 @@ class DenoKvFs {
       }
     }
   }
+  //Parses an HTTP "Range" header against a file size. Returns undefined when
+  //the header is absent, malformed or has multiple ranges (the whole file
+  //should be served) and null when the range is not satisfiable.
+  static parseRange(
+    range: string | null | undefined,
+    size: number,
+  ): { start: number; end: number } | null | undefined {
+    const match = /^bytes=(\d*)-(\d*)$/.exec((range || "").trim());
+    if (!match || (match[1] === "" && match[2] === "")) {
+      return undefined;
+    }
+    let start: number;
+    let end: number;
+    if (match[1] === "") { //suffix range, "bytes=-500" are the last 500 bytes
+      const suffix = parseInt(match[2]);
+      if (suffix == 0) {
+        return null;
+      }
+      start = Math.max(0, size - suffix);
+      end = size - 1;
+    } else {
+      start = parseInt(match[1]);
+      end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+      if (end < start && match[2] !== "") {
+        return undefined;
+      }
+    }
+    if (start >= size) {
+      return null;
+    }
+    return { start: start, end: end };
+  }
+  static etag(file: File): string | undefined {
+    if (file.etag) {
+      return file.etag;
+    }
+    //files saved before the ETags were stored
+    const id = file.checksum || file.version;
+    return id ? `"${id}"` : undefined;
+  }
+  //Evaluates the conditional headers of a request against the file, returning
+  //304 (Not Modified) or 412 (Precondition Failed) when they do not pass.
+  static evaluateConditions(
+    request: Request,
+    file: File | null,
+  ): 304 | 412 | undefined {
+    const headers = request.headers;
+    const etag = file ? DenoKvFs.etag(file) : undefined;
+    const matches = (header: string, weak: boolean) =>
+      header.split(",").map((t) => t.trim()).some((t) =>
+        t == "*" ? !!file : !!etag && (weak ? t.replace(/^W\//, "") : t) == etag
+      );
+    const dateOf = (header: string) => {
+      const date = Date.parse(header);
+      return isNaN(date) ? undefined : date;
+    };
+    //Last-Modified has a precision of seconds
+    const modified = file?.updatedAt !== undefined
+      ? Math.floor(file.updatedAt / 1000) * 1000
+      : undefined;
+    const safe = request.method == "GET" || request.method == "HEAD";
+    if (headers.has("If-Match")) {
+      if (!matches(headers.get("If-Match")!, false)) {
+        return 412;
+      }
+    } else if (headers.has("If-Unmodified-Since")) {
+      const since = dateOf(headers.get("If-Unmodified-Since")!);
+      if (since !== undefined && modified !== undefined && modified > since) {
+        return 412;
+      }
+    }
+    if (headers.has("If-None-Match")) {
+      if (matches(headers.get("If-None-Match")!, true)) {
+        return safe ? 304 : 412;
+      }
+    } else if (safe && headers.has("If-Modified-Since")) {
+      const since = dateOf(headers.get("If-Modified-Since")!);
+      if (since !== undefined && modified !== undefined && modified <= since) {
+        return 304;
+      }
+    }
+    return undefined;
+  }
   pathToURIComponent(path: string[]): string {
     const urlParts: string[] = [];
     for (const p of path) {
@@ -176,106 +560,130 @@ class DenoKvFs {
   }
   async save(options: SaveOptions): Promise<FileStatus | File> {
     const uri = this.pathToURIComponent(options.path);
-    const status = this.#fileStatus(uri);
+    const status = await this.#lockStatus(options.path);
     if (status) {
       return status;
     }
 
-    if (options.metadata) {
-      const metaSize =
-        new TextEncoder().encode(JSON.stringify(options.metadata)).length;
-      if (metaSize > 60 * 1024) {
-        const status: FileStatus = {
-          URIComponent: uri,
-          path: options.path,
-          status: "error",
-          progress: 0,
-          msg: "Metadata exceeds 60KB limit",
-        };
-        this.onFileProgress(status);
-        return status;
-      }
-    }
-
     options = { ...defaultSaveOptions, ...options };
-    if (options.validateAccess) {
-      if (!(await options.validateAccess!(options.path))) {
-        const status: FileStatus = {
-          URIComponent: uri,
-          path: options.path,
-          status: "error",
-          progress: 0,
-          msg: "Forbidden",
-        };
-        this.onFileProgress(status);
-        return status;
-      }
+    const checkStatus = await this.#checkSave(options);
+    if (checkStatus) {
+      return checkStatus;
     }
-
-    if (options.allowedExtensions!.length > 0) {
-      const fileExt = options.path[options.path.length - 1].split(".").pop();
-      if (!options.allowedExtensions!.includes(fileExt!)) {
-        const status: FileStatus = {
-          URIComponent: uri,
-          path: options.path,
-          status: "error",
-          progress: 0,
-          msg: `The file extension is not allowed (${fileExt} in ${
-            options.path[options.path.length - 1]
-          }), allowed extensions: ${options.allowedExtensions!.join(", ")}. `,
-        };
-        this.onFileProgress(status);
-        return status;
+    await this.#initKv();
+    if (
+      typeof options.content === "string" || options.content instanceof String
+    ) {
+      options.content = this.#enc.encode(options.content as string);
+    }
+    if (options.ifMatch !== undefined) {
+      const current = (await this.#kv!.get(
+        ["deno_kv_fs", "files", ...options.path],
+      )).value as File | null;
+      if (!this.#ifMatch(current, options.ifMatch)) {
+        return this.#errorStatus(
+          options.path,
+          this.#preconditionFailed,
+          options.clientId,
+        );
       }
     }
-    await this.#initKv();
-    await this.#startSaving(options);
+    const quotaStatus = await this.#checkQuotas(
+      options.path,
+      options.clientId,
+      options.content instanceof Uint8Array ? options.content.length : 0,
+    );
+    if (quotaStatus) {
+      return quotaStatus;
+    }
+    const version = this.#newVersionId();
+    const lockStatus = await this.#startSaving(options, version);
+    if (lockStatus) {
+      return lockStatus;
+    }
     if (
-      this.getClientReqs(options.clientId!) > options.maxClientIdConcurrentReqs!
+      (await this.countClientReqs(options.clientId!)) >
+        options.maxClientIdConcurrentReqs!
     ) {
-      await this.#endSaving(options);
-      const status: FileStatus = {
-        URIComponent: uri,
-        path: options.path,
-        status: "error",
-        progress: 0,
-        msg: `You can only make a maximum of ${options
+      await this.#endSaving(options, version);
+      return this.#errorStatus(
+        options.path,
+        `You can only make a maximum of ${options
           .maxClientIdConcurrentReqs!} concurrent requests.`,
-      };
-      this.onFileProgress(status);
-      return status;
+        options.clientId,
+      );
     }
     try {
-      let savingRes: any = {};
-      if (
-        typeof options.content === "string" || options.content instanceof String
-      ) {
-        options.content = this.#enc.encode(options.content as string);
-      }
-      if (options.content instanceof Uint8Array) {
+      let savingRes: SaveResult;
+      const encryptionKey = await this.#encryptionKey(options.path);
+      if (options.compression) {
+        const original = { size: 0, hasher: new Sha256(), incomplete: false };
+        options.content = this.#compressStream(options, original);
+        savingRes = await this.#saveFromReader(
+          uri,
+          options,
+          version,
+          1,
+          encryptionKey,
+        );
+        if (original.incomplete) {
+          savingRes.flags.push("incomplete");
+          this.#errorStatus(
+            options.path,
+            `The file exceeded the maximum allowed of ${options.maxFileSizeBytes} bytes.`,
+            options.clientId,
+          );
+        }
+        savingRes = {
+          ...savingRes,
+          size: original.size,
+          storedSize: savingRes.size,
+          checksum: original.hasher.hex(),
+          compression: options.compression,
+        };
+      } else if (options.content instanceof Uint8Array) {
         savingRes = await this.#saveFromUint8Array(
           uri,
           options,
+          version,
+          1,
+          encryptionKey,
         );
       } else {
         savingRes = await this.#saveFromReader(
           uri,
           options,
+          version,
+          1,
+          encryptionKey,
         );
       }
-      const file = {
+      const file: File = {
         path: options.path,
         URIComponent: uri,
         metadata: options.metadata || {},
         ...savingRes,
+        version: version,
       };
-      await this.#kv!.set(["deno_kv_fs", "files", ...options.path], file);
-      await this.#endSaving(options);
+      if (options.clientId !== undefined) {
+        file.clientId = options.clientId;
+      }
+      this.#stamp(file);
+      if (options.expiresAt !== undefined || options.ttlMs !== undefined) {
+        file.expiresAt = options.expiresAt ?? (Date.now() + options.ttlMs!);
+      }
+      await this.#commitFiles(
+        [{ path: options.path, file: file, ifMatch: options.ifMatch }],
+        options,
+        [["deno_kv_fs", "unresolved", uri, version]],
+      );
+      await this.#endSaving(options, version);
+      this.#concurrent(this.#collectGarbage(uri));
       return file;
-    } catch (e: any) {
+    } catch (e) {
       try {
-        await this.#endSaving(options, false);
-        this.delete(options); //concurrent
+        await this.#endSaving(options, version, false);
+        this.#concurrent(this.#discardVersion(uri, version, options));
       } catch {
         //
       }
@@ -285,7 +693,7 @@ class DenoKvFs {
         path: options.path,
         status: "error",
         progress: 0,
-        msg: (e.message || JSON.stringify(e)),
+        msg: (e as Error).message || JSON.stringify(e),
       };
       this.onFileProgress(status);
       return status;
@@ -293,7 +701,7 @@ class DenoKvFs {
   }
   async read(options: ReadOptions): Promise<File | FileStatus | null> {
     const uri = this.pathToURIComponent(options.path);
-    const status = this.#fileStatus(uri);
+    const status = await this.#lockStatus(options.path);
     if (status) {
       return status;
     }
@@ -312,16 +720,203 @@ class DenoKvFs {
       }
     }
     await this.#initKv();
-    const file = (await this.#kv!.get(["deno_kv_fs", "files", ...options.path]))
-      .value as File | null;
-    if (file) {
-      this.#contentData(
-        file,
-        options,
+    //the lease is taken before returning, so a save that runs before the
+    //stream is consumed does not collect the version being read
+    const readerKey = this.#readerKey(uri, undefined);
+    let replaced: string | undefined;
+    while (true) {
+      let file = (await this.#kv!.get(["deno_kv_fs", "files", ...options.path]))
+        .value as File | null;
+      if (file && this.#isExpired(file)) {
+        file = null;
+      }
+      if (options.version !== undefined && options.version !== file?.version) {
+        file = (await this.#kv!.get(
+          ["deno_kv_fs", "versions", uri, options.version],
+        )).value as File | null;
+      }
+      if (!file) {
+        return null;
+      }
+      readerKey[3] = file.version || "";
+      if (await this.#acquireReader(readerKey)) {
+        this.#concurrent(this.#touchFile(uri));
+        this.#contentData(
+          file,
+          options,
+          readerKey,
+        );
+        return file;
+      }
+      if (file.version === replaced) {
+        return null; //being collected, it is read again only once replaced
+      }
+      replaced = file.version;
+    }
+  }
+  //Previous versions of the file, the most recent first.
+  async listVersions(path: string[]): Promise<File[]> {
+    await this.#initKv();
+    const listParams = [{
+      prefix: ["deno_kv_fs", "versions", this.pathToURIComponent(path)],
+    }, {
+      limit: this.#maxPageSize,
+      reverse: true,
+    }];
+    const res: File[] = [];
+    for await (const v of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      res.push(v.value as File);
+    }
+    return res;
+  }
+  //Makes a previous version current again, the current one becomes a previous
+  //version (according to the versionPolicy). No chunks are copied.
+  async restoreVersion(options: ReadOptions): Promise<File | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    const status = await this.#lockStatus(options.path);
+    if (status) {
+      return status;
+    }
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        return this.#errorStatus(options.path, "Forbidden", options.clientId);
+      }
+    }
+    await this.#initKv();
+    const key = [
+      "deno_kv_fs",
+      "versions",
+      this.pathToURIComponent(options.path),
+      options.version || "",
+    ];
+    const previous = (await this.#kv!.get(key)).value as File | null;
+    if (!previous) {
+      return this.#errorStatus(
+        options.path,
+        `Version not found (${options.version}).`,
+        options.clientId,
+      );
+    }
+    const file = { ...previous };
+    delete file.replacedAt;
+    try {
+      await this.#commitFile(options.path, file, options, [key]);
+    } catch (e) { //over the quota
+      return this.#errorStatus(
+        options.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
       );
     }
     return file;
   }
+  //Prunes the version histories under the path with the current versionPolicy,
+  //removing the ones of the paths without a policy.
+  async pruneVersions(options: ReadOptions): Promise<void> {
+    options = { ...defaultReadOptions, ...options };
+    await this.#initKv();
+    const dirURI = this.pathToURIComponent(options.path);
+    const listParams = [{ prefix: ["deno_kv_fs", "versions"] }, {
+      limit: this.#maxPageSize,
+    }];
+    let lastURI: string | undefined;
+    for await (const v of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      const uri = v.key[2] as string;
+      if (
+        uri === lastURI ||
+        (options.path.length > 0 && uri != dirURI &&
+          !uri.startsWith(dirURI + "/"))
+      ) {
+        continue;
+      }
+      lastURI = uri;
+      const path = (v.value as File).path;
+      await this.#pruneVersions(
+        path,
+        this.versionPolicy?.(path) || { maxVersions: 0 },
+        options,
+      );
+    }
+  }
+  //Builds the response for a file returned by "read", honoring the "Range"
+  //header of the request (206 Partial Content or 416 Range Not Satisfiable).
+  async rangeResponse(
+    request: Request,
+    file: File,
+    options: Omit<ReadOptions, "path"> = {},
+  ): Promise<Response> {
+    const headers = new Headers({
+      "Accept-Ranges": "bytes",
+    });
+    const etag = DenoKvFs.etag(file);
+    if (etag) {
+      headers.set("ETag", etag);
+    }
+    if (file.updatedAt !== undefined) {
+      headers.set("Last-Modified", new Date(file.updatedAt).toUTCString());
+    }
+    const condition = DenoKvFs.evaluateConditions(request, file);
+    if (condition) {
+      await file.content?.cancel();
+      return new Response(null, { status: condition, headers: headers });
+    }
+    //the stored bytes of compressed files are sent as they are, ranges included
+    let size = file.size;
+    if (file.compression && options.decompress === false) {
+      size = file.storedSize ?? file.size;
+      headers.set("Content-Encoding", file.compression);
+    }
+    let range = request.headers.has("Range")
+      ? DenoKvFs.parseRange(request.headers.get("Range"), size)
+      : undefined;
+    if (range && request.headers.has("If-Range")) {
+      //the range is sent only if the file is still the one the client has
+      const ifRange = request.headers.get("If-Range")!;
+      const stillValid = ifRange.startsWith('"')
+        ? ifRange == etag
+        : headers.has("Last-Modified") &&
+          headers.get("Last-Modified") == new Date(ifRange).toUTCString();
+      if (!stillValid) {
+        range = undefined;
+      }
+    }
+    if (range === null) {
+      await file.content?.cancel();
+      headers.set("Content-Range", `bytes */${size}`);
+      return new Response(null, { status: 416, headers: headers });
+    }
+    let status = 200;
+    let content = file.content;
+    if (range) {
+      //the lease of the range is taken before the one of the file is released
+      const readerKey = this.#readerKey(
+        this.pathToURIComponent(file.path),
+        file.version,
+      );
+      const leased = await this.#acquireReader(readerKey);
+      await file.content?.cancel();
+      const ranged: File = { ...file };
+      this.#contentData(ranged, {
+        ...defaultReadOptions,
+        ...options,
+        ...{ path: file.path, start: range.start, end: range.end },
+      }, leased ? readerKey : undefined);
+      content = ranged.content;
+      status = 206;
+      headers.set(
+        "Content-Range",
+        `bytes ${range.start}-${range.end}/${size}`,
+      );
+      headers.set("Content-Length", `${range.end - range.start + 1}`);
+    } else {
+      headers.set("Content-Length", `${size}`);
+    }
+    if (request.method == "HEAD") {
+      await content?.cancel();
+      content = undefined;
+    }
+    return new Response(content, { status: status, headers: headers });
+  }
   async readDir(options: ReadOptions): Promise<DirList> {
     options = { ...defaultReadOptions, ...options };
     if (options.validateAccess) {
@@ -346,10 +941,35 @@ class DenoKvFs {
     if (options.cursor) {
       listParams[listParams.length - 1]["cursor"] = options.cursor;
     }
+    const locks = await this.#lockStatuses(options.path);
     let filesCount = 0;
     let time = Date.now();
     const res: DirList = { files: [], size: 0 };
-    for await (const f of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+    if (options.shallow) {
+      res.dirs = [];
+      if (!options.cursor) { //the subdirectories are returned in the first page
+        const dirsListParams = [{
+          prefix: [
+            "deno_kv_fs",
+            "dirs",
+            this.pathToURIComponent(options.path),
+          ],
+        }, {
+          limit: this.#maxPageSize,
+        }];
+        for await (
+          const d of DenoKvFs.pagedListIterator(dirsListParams, this.#kv!)
+        ) {
+          res.size += (d.value as Dir).size;
+          res.dirs.push(d.value as Dir);
+        }
+      }
+    }
+    //the expired files are skipped, so the page can end after any entry
+    const iterator = options.shallow
+      ? this.#shallowFilesIterator(options.path, options.cursor)
+      : DenoKvFs.pagedListIterator(listParams, this.#kv!, true);
+    for await (const f of iterator) {
       if ((Date.now() - time) < this.#oneSecondDelayMillis) {
         filesCount++;
         if (filesCount > options.maxDirEntriesPerSecond!) {
@@ -363,13 +983,13 @@ class DenoKvFs {
       }
       const filePath = f.key.slice(2) as string[];
       const uri = this.pathToURIComponent(filePath);
-      const status = this.#fileStatus(uri);
+      const status = locks.get(uri);
       if (status) {
         if (status.status == "saving" && status.progress) {
           res.size += status.progress;
         }
         res.files.push(status);
-      } else {
+      } else if (!this.#isExpired(f.value as File)) {
         res.size += (f.value as File).size;
         this.#contentData(
           f.value as File,
@@ -392,21 +1012,275 @@ class DenoKvFs {
     }
     return res;
   }
-  async setMetadata(
-    path: string[],
-    metadata: Record<string, any>,
-  ): Promise<void> {
-    const metaSize = new TextEncoder().encode(JSON.stringify(metadata)).length;
-    if (metaSize > 60 * 1024) {
-      throw new Error("Metadata exceeds 60KB limit");
+  //Lists the files by an indexed metadata field, in the order of its values.
+  async query(options: QueryOptions): Promise<DirList> {
+    options = { ...defaultReadOptions, ...{ path: [] }, ...options };
+    if (!this.indexedFields.includes(options.field)) {
+      return {
+        files: [
+          this.#errorStatus(
+            options.path!,
+            `The field ${options.field} is not indexed.`,
+            options.clientId,
+          ),
+        ],
+        size: 0,
+      };
     }
-
-    await this.#initKv();
-    const file = (await this.#kv!.get(["deno_kv_fs", "files", ...path]))
-      .value as File;
-    if (file) {
-      file.metadata = metadata;
-      await this.#kv!.set(["deno_kv_fs", "files", ...path], file);
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path!))) {
+        return {
+          files: [
+            this.#errorStatus(options.path!, "Forbidden", options.clientId),
+          ],
+          size: 0,
+        };
+      }
+    }
+    await this.#initKv();
+    const prefix = ["deno_kv_fs", "index", options.field];
+    //the values of other types are out of the range, an open end is bounded
+    //to the keys of the type where it has a first or last one
+    const valueType = [options.gte, options.gt, options.lt, options.lte]
+      .find((v) => v !== undefined);
+    const typeRange = this.#typeRange(prefix, valueType);
+    //"true" sorts after any URIComponent, so [..., value, true] follows the files of value
+    const start = options.equals !== undefined
+      ? undefined
+      : options.gte !== undefined
+      ? [...prefix, options.gte]
+      : options.gt !== undefined
+      ? [...prefix, options.gt, true]
+      : typeRange.start;
+    const end = options.equals !== undefined
+      ? undefined
+      : options.lt !== undefined
+      ? [...prefix, options.lt]
+      : options.lte !== undefined
+      ? [...prefix, options.lte, true]
+      : typeRange.end;
+    const selector: Deno.KvListSelector = options.equals !== undefined
+      ? { prefix: [...prefix, options.equals] }
+      : start && end
+      ? { start: start, end: end }
+      : start
+      ? { prefix: prefix, start: start }
+      : end
+      ? { prefix: prefix, end: end }
+      : { prefix: prefix };
+    const listParams: any[] = [selector, {
+      limit: this.#maxPageSize,
+      reverse: !!options.reverse,
+    }];
+    if (options.cursor) {
+      listParams[listParams.length - 1]["cursor"] = options.cursor;
+    }
+    const dirURI = this.pathToURIComponent(options.path!);
+    let filesCount = 0;
+    let time = Date.now();
+    const res: DirList = { files: [], size: 0 };
+    let typeSeen = false;
+    //the entries out of the path are skipped, so the page can end after any
+    for await (
+      const i of DenoKvFs.pagedListIterator(listParams, this.#kv!, true)
+    ) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      if (valueType !== undefined) {
+        //the keys of a type are contiguous, the ones after them are not listed
+        if (typeof i.key[3] != typeof valueType) {
+          if (typeSeen) {
+            break;
+          }
+          continue;
+        }
+        typeSeen = true;
+      }
+      const filePath = i.value as string[];
+      if (
+        options.path!.length == 0 ||
+        (i.key[4] as string).startsWith(dirURI + "/")
+      ) {
+        const file = (await this.#kv!.get(["deno_kv_fs", "files", ...filePath]))
+          .value as File | null;
+        //the index of a field declared after the file was saved can be stale
+        if (
+          file && !this.#isExpired(file) &&
+          this.#indexValues(file.metadata, options.field).includes(i.key[3])
+        ) {
+          res.size += file.size;
+          this.#contentData(file, {
+            ...options,
+            ...{ path: filePath },
+          } as ReadOptions);
+          res.files.push(file);
+        }
+      }
+      if (res.files.length == this.#maxPageSize) {
+        if (options.pagination) {
+          if (i.cursor) {
+            res["cursor"] = i.cursor;
+            break;
+          }
+        }
+      }
+    }
+    return res;
+  }
+  //The first and the end keys of the index values of the type, where they
+  //are known whatever the order of the types in the backend.
+  #typeRange(
+    prefix: Deno.KvKey,
+    value: IndexValue | undefined,
+  ): { start?: Deno.KvKey; end?: Deno.KvKey } {
+    switch (typeof value) {
+      case "string":
+        return { start: [...prefix, ""] };
+      case "number": //NaN sorts after Infinity
+        return { start: [...prefix, -Infinity], end: [...prefix, NaN, true] };
+      case "boolean":
+        return { start: [...prefix, false], end: [...prefix, true, true] };
+      default:
+        return {};
+    }
+  }
+  //Rebuilds the metadata indexes, needed after changing indexedFields.
+  async reindex(options?: Omit<ReadOptions, "path">): Promise<void> {
+    options = { ...defaultReadOptions, ...options };
+    await this.#initKv();
+    const indexListParams = [{ prefix: ["deno_kv_fs", "index"] }, {
+      limit: this.#maxPageSize,
+    }];
+    for await (
+      const i of DenoKvFs.pagedListIterator(indexListParams, this.#kv!)
+    ) {
+      await this.#kv!.delete(i.key);
+    }
+    const listParams = [{ prefix: ["deno_kv_fs", "files"] }, {
+      limit: this.#maxPageSize,
+    }];
+    let filesCount = 0;
+    let time = Date.now();
+    for await (const f of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      const filePath = f.key.slice(2) as string[];
+      const uri = this.pathToURIComponent(filePath);
+      const op = this.#kv!.atomic();
+      for (const indexKey of this.#indexKeys((f.value as File).metadata, uri)) {
+        op.set(indexKey, filePath);
+      }
+      await op.commit();
+    }
+  }
+  //Rebuilds the records of the directories from the files, needed for the
+  //files saved before the directories were tracked. The directories created
+  //by mkdir are kept. It must run while no files are saved or deleted.
+  async rebuildDirs(options?: Omit<ReadOptions, "path">): Promise<void> {
+    options = { ...defaultReadOptions, ...options };
+    await this.#initKv();
+    const dirs = new Map<string, Dir>();
+    const dirsListParams = [{ prefix: ["deno_kv_fs", "dirs"] }, {
+      limit: this.#maxPageSize,
+    }];
+    for await (
+      const d of DenoKvFs.pagedListIterator(dirsListParams, this.#kv!)
+    ) {
+      const dir = d.value as Dir;
+      if (dir.explicit) {
+        dirs.set(dir.URIComponent, { ...dir, ...{ size: 0, filesCount: 0 } });
+      }
+    }
+    const listParams = [{ prefix: ["deno_kv_fs", "files"] }, {
+      limit: this.#maxPageSize,
+    }];
+    let filesCount = 0;
+    let time = Date.now();
+    for await (const f of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      const filePath = f.key.slice(2) as string[];
+      for (let i = 1; i < filePath.length; i++) {
+        const dirPath = filePath.slice(0, i);
+        const uri = this.pathToURIComponent(dirPath);
+        const dir = dirs.get(uri) || {
+          path: dirPath,
+          URIComponent: uri,
+          size: 0,
+          filesCount: 0,
+          explicit: false,
+        };
+        dir.size += (f.value as File).size;
+        dir.filesCount++;
+        dirs.set(uri, dir);
+      }
+    }
+    for (const dir of dirs.values()) {
+      await this.#kv!.set(this.#dirKey(dir.path), dir);
+    }
+    for await (
+      const d of DenoKvFs.pagedListIterator(dirsListParams, this.#kv!)
+    ) {
+      if (!dirs.has((d.value as Dir).URIComponent)) {
+        await this.#kv!.delete(d.key);
+      }
+    }
+  }
+  async setMetadata(
+    path: string[],
+    metadata: Record<string, any>,
+  ): Promise<void> {
+    const metaSize = new TextEncoder().encode(JSON.stringify(metadata)).length;
+    if (metaSize > 60 * 1024) {
+      throw new Error("Metadata exceeds 60KB limit");
+    }
+
+    await this.#initKv();
+    while (true) {
+      const current = await this.#kv!.get(["deno_kv_fs", "files", ...path]);
+      const file = current.value as File | null;
+      if (!file) {
+        return;
+      }
+      //the metadata indexes are updated in the same commit
+      if (
+        await this.#commitFile(
+          path,
+          { ...file, ...{ metadata: metadata } },
+          { path: path },
+          [],
+          current.versionstamp!,
+        )
+      ) {
+        return;
+      }
     }
   }
 
@@ -416,9 +1290,276 @@ class DenoKvFs {
       .value as File;
     return file?.metadata;
   }
+  //A path can be both a file and a directory, the file is returned first.
+  async stat(path: string[]): Promise<Stat | null> {
+    await this.#initKv();
+    const file = (await this.#kv!.get(["deno_kv_fs", "files", ...path]))
+      .value as File | null;
+    if (file && !this.#isExpired(file)) {
+      return { type: "file", file: file };
+    }
+    if (path.length > 0) {
+      const dir = (await this.#kv!.get(this.#dirKey(path))).value as Dir | null;
+      return dir ? { type: "dir", dir: dir } : null;
+    }
+    const root: Dir = {
+      path: [],
+      URIComponent: "",
+      size: 0,
+      filesCount: 0,
+      explicit: true,
+    };
+    const listParams = [{ prefix: ["deno_kv_fs", "dirs", ""] }, {
+      limit: this.#maxPageSize,
+    }];
+    for await (const d of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      root.size += (d.value as Dir).size;
+      root.filesCount += (d.value as Dir).filesCount;
+    }
+    for await (const f of this.#shallowFilesIterator([])) {
+      root.size += (f.value as File).size;
+      root.filesCount++;
+    }
+    return { type: "dir", dir: root };
+  }
+  //Bytes and files under a path or saved by a clientId.
+  async getUsage(
+    target: { path?: string[]; clientId?: string | number },
+  ): Promise<Usage> {
+    await this.#initKv();
+    if (target.path) {
+      const stat = await this.stat(target.path);
+      return stat?.type == "dir"
+        ? { size: stat.dir.size, filesCount: stat.dir.filesCount }
+        : { size: 0, filesCount: 0 };
+    }
+    return ((await this.#kv!.get(["deno_kv_fs", "usage", target.clientId!]))
+      .value as Usage | null) || { size: 0, filesCount: 0 };
+  }
+  //Yields the changes of the files under the path made by any instance, from
+  //now or after the cursor of a previous event (e.g. after a disconnect). The
+  //change log is kept for changeRetentionMillis, an older cursor throws.
+  async *watch(
+    path: string[] = [],
+    options: { cursor?: string } = {},
+  ): AsyncGenerator<ChangeEvent> {
+    await this.#initKv();
+    const headKeys = Array.from(
+      { length: this.#changeShards },
+      (_, shard) => ["deno_kv_fs", "changes_head", shard],
+    );
+    //the position in each shard of the log
+    let positions = options.cursor?.split(".").map((p) => parseInt(p));
+    if (
+      positions &&
+      (positions.length != this.#changeShards || positions.some(isNaN))
+    ) {
+      throw new Error(`Invalid cursor (${options.cursor}).`);
+    }
+    for await (const heads of this.#kv!.watch(headKeys)) {
+      const last = heads.map((head) => (head.value as number | null) ?? 0);
+      if (!positions) {
+        positions = last; //from the current changes
+        continue;
+      }
+      //only up to the heads read together: the commits after them are after
+      //all these in every shard, so the versionstamps order them
+      const entries: Deno.KvEntry<unknown>[] = [];
+      for (let shard = 0; shard < this.#changeShards; shard++) {
+        if (last[shard] <= positions[shard]) {
+          continue;
+        }
+        const listParams = [{
+          start: ["deno_kv_fs", "changes", shard, positions[shard] + 1],
+          end: ["deno_kv_fs", "changes", shard, last[shard] + 1],
+        }, {
+          limit: this.#maxPageSize,
+        }];
+        let sequence = positions[shard];
+        for await (
+          const entry of DenoKvFs.pagedListIterator(listParams, this.#kv!)
+        ) {
+          if (entry.key[3] != sequence + 1) {
+            break;
+          }
+          sequence++;
+          entries.push(entry);
+        }
+        if (sequence != last[shard]) {
+          throw new Error(
+            `The changes after the cursor ${positions.join(".")} expired.`,
+          );
+        }
+      }
+      entries.sort((a, b) =>
+        a.versionstamp < b.versionstamp
+          ? -1
+          : a.versionstamp > b.versionstamp
+          ? 1
+          : 0
+      );
+      for (const entry of entries) {
+        positions[entry.key[2] as number] = entry.key[3] as number;
+        const event: ChangeEvent = {
+          ...{ cursor: positions.join(".") },
+          ...entry.value as Omit<ChangeEvent, "cursor">,
+        };
+        if (
+          this.#isUnder(event.path, path) ||
+          (event.from && this.#isUnder(event.from, path))
+        ) {
+          yield event;
+        }
+      }
+    }
+  }
+  //The shard of the change log of a path. Each shard is numbered in commit
+  //order and has its own head, so the commits of unrelated files do not
+  //conflict on a single record.
+  #changeShard(URIComponent: string): number {
+    let hash = 0;
+    for (let i = 0; i < URIComponent.length; i++) {
+      hash = (hash * 31 + URIComponent.charCodeAt(i)) >>> 0;
+    }
+    return hash % this.#changeShards;
+  }
+  //Rejects a save early, before its content is stored. The commit checks the
+  //quotas again, with the final size.
+  async #checkQuotas(
+    path: string[],
+    clientId: string | number | undefined,
+    size: number,
+  ): Promise<FileStatus | undefined> {
+    const quotas = this.quotaPolicy?.(path, clientId) || [];
+    if (quotas.length == 0) {
+      return undefined;
+    }
+    const current = (await this.#kv!.get(["deno_kv_fs", "files", ...path]))
+      .value as File | null;
+    for (const quota of quotas) {
+      if (quota.path && !this.#isUnder(path, quota.path)) {
+        continue;
+      }
+      if (!quota.path && clientId === undefined) {
+        continue;
+      }
+      const usage = await this.getUsage(
+        quota.path ? { path: quota.path } : { clientId: clientId },
+      );
+      //an overwritten file no longer counts
+      const replaced = current && (quota.path || current.clientId === clientId)
+        ? current
+        : undefined;
+      if (
+        usage.size - (replaced?.size ?? 0) + size >
+          (quota.maxBytes ?? Infinity) ||
+        usage.filesCount + (replaced ? 0 : 1) > (quota.maxFiles ?? Infinity)
+      ) {
+        return this.#errorStatus(
+          path,
+          `The quota of ${
+            quota.path
+              ? this.pathToURIComponent(quota.path)
+              : `the client ${clientId}`
+          } would be exceeded.`,
+          clientId,
+        );
+      }
+    }
+  }
+  //Creates the directory and its parents, which exist even while empty.
+  async mkdir(options: ReadOptions): Promise<Dir | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    if (options.path.length == 0) {
+      return this.#errorStatus(
+        options.path,
+        "The root directory already exists.",
+        options.clientId,
+      );
+    }
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        return this.#errorStatus(options.path, "Forbidden", options.clientId);
+      }
+    }
+    await this.#initKv();
+    while (true) {
+      const op = this.#kv!.atomic();
+      let dir: Dir | undefined;
+      for (let i = 1; i <= options.path.length; i++) {
+        const dirPath = options.path.slice(0, i);
+        const key = this.#dirKey(dirPath);
+        const current = await this.#kv!.get(key);
+        op.check(current);
+        dir = {
+          ...((current.value as Dir | null) || {
+            path: dirPath,
+            URIComponent: this.pathToURIComponent(dirPath),
+            size: 0,
+            filesCount: 0,
+          }),
+          ...{ explicit: true },
+        };
+        op.set(key, dir);
+      }
+      if ((await op.commit()).ok) {
+        return dir!;
+      }
+    }
+  }
+  //Removes an empty directory (use deleteDir to remove its files as well).
+  async rmdir(options: ReadOptions): Promise<void | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        return this.#errorStatus(options.path, "Forbidden", options.clientId);
+      }
+    }
+    await this.#initKv();
+    const key = this.#dirKey(options.path);
+    const current = await this.#kv!.get(key);
+    if (!current.value || options.path.length == 0) {
+      return this.#errorStatus(
+        options.path,
+        `Directory not found (${this.pathToURIComponent(options.path)}).`,
+        options.clientId,
+      );
+    }
+    const subdirs = this.#kv!.list({
+      prefix: ["deno_kv_fs", "dirs", this.pathToURIComponent(options.path)],
+    }, { limit: 1 });
+    if ((current.value as Dir).filesCount > 0 || !(await subdirs.next()).done) {
+      return this.#errorStatus(
+        options.path,
+        `Directory not empty (${this.pathToURIComponent(options.path)}).`,
+        options.clientId,
+      );
+    }
+    //a file or directory created meanwhile changes the record
+    if (!(await this.#kv!.atomic().check(current).delete(key).commit()).ok) {
+      return await this.rmdir(options);
+    }
+  }
+  //Removes the empty directories beneath the path (and the path itself).
+  async #removeEmptyDirs(path: string[]): Promise<void> {
+    const listParams = [{
+      prefix: ["deno_kv_fs", "dirs", this.pathToURIComponent(path)],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    for await (const d of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      await this.#removeEmptyDirs((d.value as Dir).path);
+    }
+    if (path.length > 0) {
+      const current = await this.#kv!.get(this.#dirKey(path));
+      if (current.value && (current.value as Dir).filesCount == 0) {
+        await this.#kv!.atomic().check(current).delete(current.key).commit();
+      }
+    }
+  }
   async delete(options: ReadOptions): Promise<void | FileStatus> {
     const uri = this.pathToURIComponent(options.path);
-    const status = this.#fileStatus(uri);
+    const status = await this.#lockStatus(options.path);
     if (status) {
       return status;
     }
@@ -438,9 +1579,12 @@ class DenoKvFs {
     }
     try {
       await this.#initKv();
-      await this.#startDeleting(options);
+      const lockStatus = await this.#startDeleting(options);
+      if (lockStatus) {
+        return lockStatus;
+      }
       if (
-        this.getClientReqs(options.clientId!) >
+        (await this.countClientReqs(options.clientId!)) >
           options.maxClientIdConcurrentReqs!
       ) {
         await this.#endDeleting(options);
@@ -455,10 +1599,24 @@ class DenoKvFs {
         this.onFileProgress(status);
         return status;
       }
-      await this.#kv!.delete(["deno_kv_fs", "files", ...options.path]);
-      await this.#deleteChunks(options);
+      if (options.trash) {
+        await this.#commitFiles(
+          [{ path: options.path, file: null, trash: true }],
+          options,
+        );
+        await this.#endDeleting(options);
+        return;
+      }
+      const file = await this.#commitFile(options.path, null, options);
+      if (file) {
+        this.#progressInfo[uri].totalBytes = file.storedSize ?? file.size;
+        await this.#collectVersion(uri, file.version, options, true, file.tier);
+      } else {
+        await this.#deleteChunks(options, undefined, true); //leftovers of files saved without versions
+      }
+      await this.#pruneVersions(options.path, { maxVersions: 0 }, options);
       await this.#endDeleting(options);
-    } catch (e: any) {
+    } catch (e) {
       try {
         await this.#endDeleting(options, false);
       } catch {
@@ -470,7 +1628,7 @@ class DenoKvFs {
         path: options.path,
         status: "error",
         progress: 0,
-        msg: (e.message || JSON.stringify(e)),
+        msg: (e as Error).message || JSON.stringify(e),
       };
       this.onFileProgress(status);
       return status;
@@ -497,7 +1655,7 @@ class DenoKvFs {
     }, {
       limit: this.#maxPageSize,
     }];
-    let res: FileStatus[] = [];
+    const res: FileStatus[] = [];
     let filesCount = 0;
     let time = Date.now();
     for await (
@@ -524,24 +1682,2725 @@ class DenoKvFs {
         );
       }
     }
-    return res;
+    await this.#removeEmptyDirs(options.path);
+    return res;
+  }
+  async copy(options: MoveOptions): Promise<File | FileStatus> {
+    return await this.#copyFile(options, false);
+  }
+  //The destination is saved and the source removed in a single atomic commit.
+  async move(options: MoveOptions): Promise<File | FileStatus> {
+    return await this.#copyFile(options, true);
+  }
+  async copyDir(options: MoveOptions): Promise<FileStatus[]> {
+    return await this.#copyDir(options, false);
+  }
+  async moveDir(options: MoveOptions): Promise<FileStatus[]> {
+    return await this.#copyDir(options, true);
+  }
+  //A tar (or zip) archive of the files under the path, streamed as they are
+  //read. Its last entry is a manifest with the path, size, checksum and
+  //metadata of each file, which importArchive applies. The progress is
+  //reported through onFileProgress as "exporting" statuses of the directory.
+  async exportDir(
+    options: ExportOptions,
+  ): Promise<ReadableStream<Uint8Array> | FileStatus> {
+    options = { ...defaultExportOptions, ...options };
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        return this.#errorStatus(options.path, "Forbidden", options.clientId);
+      }
+    }
+    await this.#initKv();
+    const archive = this.#archiveChunks(options);
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await archive.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (e) {
+          controller.error(e);
+        }
+      },
+      async cancel() {
+        await archive.return(undefined);
+      },
+    });
+  }
+  //The files are written as they are listed, and the manifest after them.
+  async *#archiveChunks(options: ExportOptions): AsyncGenerator<Uint8Array> {
+    const listParams = [{
+      prefix: ["deno_kv_fs", "files", ...options.path],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const writer = archiveWriter(options.format!);
+    const entries: ArchiveManifestEntry[] = [];
+    const startedAt = Date.now();
+    let progress = 0;
+    let filesCount = 0;
+    let time = Date.now();
+    for await (const f of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      const listed = f.value as File;
+      const name = listed.path[listed.path.length - 1];
+      if (
+        this.#isExpired(listed) || listed.size > options.maxFileSizeBytes! ||
+        (options.allowedExtensions!.length > 0 &&
+          !options.allowedExtensions!.includes(name.split(".").pop()!)) ||
+        !(await options.validateAccess!(listed.path))
+      ) {
+        continue;
+      }
+      const path = listed.path.slice(options.path.length);
+      const entryName = path.join("/");
+      if (entryName == archiveManifestName) {
+        this.#errorStatus(
+          listed.path,
+          "The file was left out of the archive (it has the name of the manifest).",
+          options.clientId,
+        );
+        continue;
+      }
+      const file = await this.read({
+        path: listed.path,
+        chunksPerSecond: options.chunksPerSecond,
+        clientId: options.clientId,
+        validateAccess: options.validateAccess,
+        maxClientIdConcurrentReqs: options.maxClientIdConcurrentReqs,
+      });
+      if (!file || "status" in file) { //deleted or busy since it was listed
+        this.#errorStatus(
+          listed.path,
+          `The file was left out of the archive (${
+            file ? file.msg || file.status : "not found"
+          }).`,
+          options.clientId,
+        );
+        continue;
+      }
+      yield* writer.entry(
+        entryName,
+        file.size,
+        file.updatedAt ?? startedAt,
+        file.content!,
+      );
+      entries.push({
+        name: entryName,
+        path: path,
+        size: file.size,
+        checksum: file.checksum,
+        metadata: file.metadata,
+        createdAt: file.createdAt,
+        updatedAt: file.updatedAt,
+      });
+      progress += file.size;
+      this.onFileProgress(
+        this.#archiveStatus(
+          options.path,
+          "exporting",
+          progress,
+          startedAt,
+          options.clientId,
+          `Exported ${entryName}.`,
+        ),
+      );
+    }
+    const manifest = this.#enc.encode(JSON.stringify({
+      path: options.path,
+      exportedAt: Date.now(),
+      files: entries,
+    }));
+    yield* writer.entry(
+      archiveManifestName,
+      manifest.length,
+      Date.now(),
+      new Blob([manifest]).stream(),
+    );
+    yield writer.end();
+  }
+  //Unpacks a tar or zip archive (such as the ones of exportDir) under the path,
+  //saving each file with the options. The exact paths and the metadata of its
+  //manifest, if any, are applied after the files. Returns the statuses of the
+  //entries that failed. The progress is reported through onFileProgress as
+  //"importing" statuses of the directory, besides the ones of each save.
+  async importArchive(
+    content: ReadableStream<Uint8Array>,
+    options: ImportOptions,
+  ): Promise<FileStatus[]> {
+    options = { ...defaultSaveOptions, ...options };
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        await content.cancel();
+        return [this.#errorStatus(options.path, "Forbidden", options.clientId)];
+      }
+    }
+    const res: FileStatus[] = [];
+    let manifest: ArchiveManifestEntry[] = [];
+    const imported = new Map<string, string[]>(); //the paths by entry name
+    const startedAt = Date.now();
+    let progress = 0;
+    try {
+      for await (const entry of archiveEntries(content)) {
+        if (entry.name == archiveManifestName) {
+          manifest = this.#manifestEntries(
+            JSON.parse(await new Response(entry.content).text()),
+          );
+          continue;
+        }
+        const parts = entry.name.split("/").filter((p) => p != "" && p != ".");
+        if (parts.includes("..")) {
+          await entry.content.cancel();
+          res.push(
+            this.#errorStatus(
+              [...options.path, ...parts],
+              `Invalid archive entry (${entry.name}).`,
+              options.clientId,
+            ),
+          );
+          continue;
+        }
+        const path = [...options.path, ...parts];
+        if (entry.name.endsWith("/")) {
+          await entry.content.cancel();
+          if (parts.length > 0) {
+            const dir = await this.mkdir({ ...options, ...{ path: path } });
+            if ("status" in dir) {
+              res.push(dir);
+            }
+          }
+          continue;
+        }
+        let size = 0;
+        const counter = new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            size += chunk.length;
+            controller.enqueue(chunk);
+          },
+        });
+        const counted = entry.content.pipeThrough(counter);
+        const file = await this.save({
+          ...options,
+          ...{ path: path, content: counted },
+        });
+        //a save that stopped early leaves the rest to archiveEntries, which
+        //drains it, and one that never read the content cancels it here
+        if (!counted.locked) {
+          await counted.cancel();
+        }
+        if ("status" in file) {
+          res.push(file);
+          continue;
+        }
+        imported.set(entry.name, path);
+        progress += size;
+        this.onFileProgress(
+          this.#archiveStatus(
+            options.path,
+            "importing",
+            progress,
+            startedAt,
+            options.clientId,
+            `Imported ${entry.name}.`,
+          ),
+        );
+      }
+    } catch (e) {
+      res.push(
+        this.#errorStatus(
+          options.path,
+          `Invalid archive (${(e as Error).message || JSON.stringify(e)}).`,
+          options.clientId,
+        ),
+      );
+    }
+    //the manifest comes after the files, its paths and metadata are applied now
+    for (const listed of manifest) {
+      const from = imported.get(listed.name);
+      if (!from) {
+        continue;
+      }
+      const path = [...options.path, ...listed.path];
+      if (this.pathToURIComponent(path) != this.pathToURIComponent(from)) {
+        const moved = await this.move({
+          ...options,
+          ...{
+            path: from,
+            to: path,
+            allowedExtensions: options.allowedExtensions, //of the manifest path
+          },
+        });
+        if ("status" in moved) {
+          res.push(moved);
+          continue;
+        }
+      }
+      if (listed.metadata && Object.keys(listed.metadata).length > 0) {
+        try {
+          await this.setMetadata(path, {
+            ...options.metadata,
+            ...listed.metadata,
+          });
+        } catch (e) {
+          res.push(
+            this.#errorStatus(path, (e as Error).message, options.clientId),
+          );
+        }
+      }
+    }
+    return res;
+  }
+  //The entries of a manifest, checked since the archive may come from anyone.
+  #manifestEntries(data: unknown): ArchiveManifestEntry[] {
+    const files = (data as { files?: unknown } | null)?.files;
+    if (!Array.isArray(files)) {
+      throw new Error("The manifest has no list of files.");
+    }
+    for (const e of files as ArchiveManifestEntry[]) {
+      if (
+        typeof e?.name != "string" || !Array.isArray(e.path) ||
+        e.path.length == 0 ||
+        e.path.some((p) =>
+          typeof p != "string" || p == "" || p == "." || p == ".."
+        ) ||
+        (e.metadata !== undefined &&
+          (typeof e.metadata != "object" || e.metadata === null ||
+            Array.isArray(e.metadata)))
+      ) {
+        throw new Error(
+          `Invalid manifest entry (${JSON.stringify(e).slice(0, 100)}).`,
+        );
+      }
+    }
+    return files;
+  }
+  //Trashed files under the path, the oldest first.
+  async listTrash(path: string[] = []): Promise<TrashItem[]> {
+    await this.#initKv();
+    const listParams = [{ prefix: ["deno_kv_fs", "trash"] }, {
+      limit: this.#maxPageSize,
+    }];
+    const res: TrashItem[] = [];
+    for await (const t of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if (this.#isUnder((t.value as TrashItem).path, path)) {
+        res.push(t.value as TrashItem);
+      }
+    }
+    return res;
+  }
+  //Restores a trashed file to its original path, if there is no file there.
+  async restore(
+    id: string,
+    options: Omit<ReadOptions, "path"> = {},
+  ): Promise<File | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    await this.#initKv();
+    const entry = await this.#kv!.get(["deno_kv_fs", "trash", id]);
+    const item = entry.value as TrashItem | null;
+    if (!item) {
+      return this.#errorStatus(
+        [],
+        `Trash item not found (${id}).`,
+        options.clientId,
+      );
+    }
+    const status = await this.#lockStatus(item.path);
+    if (status) {
+      return status;
+    }
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(item.path))) {
+        return this.#errorStatus(item.path, "Forbidden", options.clientId);
+      }
+    }
+    const current = await this.#kv!.get(["deno_kv_fs", "files", ...item.path]);
+    if (current.value) {
+      return this.#errorStatus(
+        item.path,
+        `A file already exists at ${this.pathToURIComponent(item.path)}.`,
+        options.clientId,
+      );
+    }
+    let restored;
+    try {
+      //fails if the item was purged or a file was saved meanwhile
+      restored = await this.#commitFiles(
+        [{ path: item.path, file: item.file }],
+        { ...options, ...{ path: item.path } },
+        [entry.key],
+        undefined,
+        [entry, current],
+      );
+    } catch (e) { //over the quota
+      return this.#errorStatus(
+        item.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    }
+    if (!restored) {
+      return this.#errorStatus(
+        item.path,
+        "The trash item changed meanwhile.",
+        options.clientId,
+      );
+    }
+    return item.file;
+  }
+  //Purges the trashed files under the path, the chunks are removed respecting
+  //the chunksPerSecond. With expiredOnly, it can be called periodically as a
+  //sweeper (e.g. with Deno.cron), it also runs when an instance starts.
+  async emptyTrash(
+    options: Partial<ReadOptions> & { expiredOnly?: boolean } = {},
+  ): Promise<void> {
+    options = { ...defaultReadOptions, ...{ path: [] }, ...options };
+    await this.#initKv();
+    const listParams = [{ prefix: ["deno_kv_fs", "trash"] }, {
+      limit: this.#maxPageSize,
+    }];
+    for await (const t of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      const item = t.value as TrashItem;
+      if (
+        !this.#isUnder(item.path, options.path!) ||
+        (options.expiredOnly && item.expiresAt > Date.now())
+      ) {
+        continue;
+      }
+      const uri = this.pathToURIComponent(item.path);
+      const purged = await this.#kv!.atomic()
+        .check(t)
+        .delete(t.key)
+        .set(["deno_kv_fs", "garbage", uri, item.file.version || ""], {
+          path: item.path,
+          version: item.file.version,
+          tier: item.file.tier,
+          chunksPerSecond: options.chunksPerSecond,
+        })
+        .commit();
+      if (purged.ok) {
+        await this.#collectGarbage(uri);
+        const file = await this.#kv!.get(["deno_kv_fs", "files", ...item.path]);
+        if (!file.value) { //the version history of a file that no longer exists
+          await this.#pruneVersions(
+            item.path,
+            { maxVersions: 0 },
+            options as ReadOptions,
+          );
+        }
+      }
+    }
+  }
+  //Deletes the expired files, it can be called periodically as a sweeper (e.g.
+  //with Deno.cron), it also runs when an instance starts.
+  async deleteExpired(
+    options: Omit<ReadOptions, "path"> = {},
+  ): Promise<FileStatus[]> {
+    options = { ...defaultReadOptions, ...options };
+    await this.#initKv();
+    const listParams = [{
+      start: ["deno_kv_fs", "expiring"],
+      end: ["deno_kv_fs", "expiring", Date.now() + 1],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const res: FileStatus[] = [];
+    for await (const e of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      const status = await this.#deleteExpiredFile(
+        e.value as string[],
+        e.key[2] as number,
+        options,
+      );
+      if (status) {
+        res.push(status);
+      }
+    }
+    return res;
+  }
+  //Deletes the files when they expire with kv.listenQueue, the saves made by
+  //this instance enqueue their expiration (surviving restarts). If the
+  //application already listens to the queue, it calls handleQueueMessage instead.
+  //A failure of the listener is reported by "onFileProgress".
+  startExpiryWorker(): void {
+    this.#expiryWorker = true;
+    this.#initKv()
+      .then(() =>
+        this.#kv!.listenQueue(async (message) => {
+          await this.handleQueueMessage(message);
+        })
+      )
+      .catch((e: Error) =>
+        this.#errorStatus(
+          [],
+          `The expiry worker stopped (${e.message || JSON.stringify(e)}).`,
+        )
+      ); //concurrent
+  }
+  //Returns false for the messages that were not enqueued by DenoKvFs.
+  async handleQueueMessage(message: unknown): Promise<boolean> {
+    const m = message as {
+      deno_kv_fs?: string;
+      path: string[];
+      expiresAt: number;
+    };
+    if (m?.deno_kv_fs != "expire") {
+      return false;
+    }
+    await this.#initKv();
+    if (m.expiresAt > Date.now()) { //beyond the maximum delay of the queue
+      const op = this.#kv!.atomic();
+      this.#enqueueExpiry(op, m.path, m.expiresAt);
+      await op.commit();
+      return true;
+    }
+    await this.#deleteExpiredFile(m.path, m.expiresAt, defaultReadOptions);
+    return true;
+  }
+  #enqueueExpiry(
+    op: StorageAtomicOperation,
+    path: string[],
+    expiresAt: number,
+  ) {
+    op.enqueue({ deno_kv_fs: "expire", path: path, expiresAt: expiresAt }, {
+      delay: Math.min(
+        Math.max(0, expiresAt - Date.now()),
+        this.#maxQueueDelayMillis,
+      ),
+    });
+  }
+  async #deleteExpiredFile(
+    path: string[],
+    expiresAt: number,
+    options: Omit<ReadOptions, "path">,
+  ): Promise<FileStatus | void> {
+    const file = (await this.#kv!.get(["deno_kv_fs", "files", ...path]))
+      .value as File | null;
+    if (file?.expiresAt !== expiresAt || !this.#isExpired(file)) {
+      return; //replaced meanwhile
+    }
+    return await this.delete({ ...options, ...{ path: path, trash: false } });
+  }
+  #isExpired(file: File): boolean {
+    return file.expiresAt !== undefined && file.expiresAt <= Date.now();
+  }
+  #isUnder(path: string[], dirPath: string[]): boolean {
+    return path.length >= dirPath.length &&
+      dirPath.every((p, i) => p === path[i]);
+  }
+  async #copyFile(
+    options: MoveOptions,
+    removeSource: boolean,
+  ): Promise<File | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    if (
+      this.pathToURIComponent(options.path) ==
+        this.pathToURIComponent(options.to)
+    ) {
+      return this.#errorStatus(
+        options.to,
+        "The source and the destination are the same.",
+        options.clientId,
+      );
+    }
+    for (
+      const status of [
+        await this.#lockStatus(options.path),
+        await this.#lockStatus(options.to),
+      ]
+    ) {
+      if (status) {
+        return status;
+      }
+    }
+    if (options.validateAccess) {
+      for (const path of [options.path, options.to]) {
+        if (!(await options.validateAccess!(path))) {
+          return this.#errorStatus(path, "Forbidden", options.clientId);
+        }
+      }
+    }
+    const extensionStatus = this.#checkExtension(
+      options.to,
+      options.allowedExtensions ?? [],
+      options.clientId,
+    );
+    if (extensionStatus) {
+      return extensionStatus;
+    }
+    await this.#initKv();
+    const uri = this.pathToURIComponent(options.to);
+    const params: SaveOptions = {
+      ...defaultSaveOptions,
+      ...options,
+      ...{ path: options.to, content: "" },
+    };
+    //the source is not counted as another request of the client
+    const sourceParams: ReadOptions = {
+      ...options,
+      ...{ clientId: undefined },
+    };
+    const version = this.#newVersionId();
+    const lockStatus = await this.#startSaving(params, version);
+    if (lockStatus) {
+      return lockStatus;
+    }
+    if (removeSource) {
+      const sourceStatus = await this.#startDeleting(sourceParams, false);
+      if (sourceStatus) {
+        await this.#endSaving(params, version);
+        return sourceStatus;
+      }
+    }
+    //a lease keeps the source version from being collected while it is copied
+    const readerKey = [
+      "deno_kv_fs",
+      "readers",
+      this.pathToURIComponent(options.path),
+      "",
+      crypto.randomUUID(),
+    ];
+    let tier: string | undefined;
+    try {
+      if (
+        (await this.countClientReqs(options.clientId!)) >
+          options.maxClientIdConcurrentReqs!
+      ) {
+        throw new Error(
+          `You can only make a maximum of ${options
+            .maxClientIdConcurrentReqs!} concurrent requests.`,
+        );
+      }
+      let source: File | null = null;
+      do { //read again if it was replaced before the lease was taken
+        source = (await this.#kv!.get(["deno_kv_fs", "files", ...options.path]))
+          .value as File | null;
+        if (!source || this.#isExpired(source)) {
+          throw new Error(
+            `File not found (${this.pathToURIComponent(options.path)}).`,
+          );
+        }
+        readerKey[3] = source.version || "";
+      } while (!(await this.#acquireReader(readerKey)));
+      await this.#holdReader(readerKey);
+      if (source.tier !== undefined) { //the copy is written to the same tier
+        tier = source.tier;
+        await this.#markUnresolved(params, version, tier);
+      }
+      await this.#rewriteChunks(source, params, uri, version, source.tier);
+      const file: File = {
+        ...source,
+        ...{
+          path: options.to,
+          URIComponent: uri,
+          version: version,
+          clientId: options.clientId ?? source.clientId,
+        },
+      };
+      if (!removeSource) { //a copy is a new file, a moved one keeps its dates
+        this.#stamp(file);
+      }
+      const changes: { path: string[]; file: File | null; from?: string[] }[] =
+        [{
+          path: options.to,
+          file: file,
+        }];
+      if (removeSource) {
+        changes[0].from = options.path;
+        changes.push({ path: options.path, file: null });
+      }
+      await this.#commitFiles(changes, params, [
+        ["deno_kv_fs", "unresolved", uri, version],
+      ]);
+      if (removeSource) { //the version history is not moved
+        this.#concurrent(
+          this.#pruneVersions(options.path, { maxVersions: 0 }, params),
+        );
+      }
+      await this.#releaseReader(readerKey);
+      await this.#endSaving(params, version);
+      if (removeSource) {
+        await this.#endDeleting(sourceParams, false);
+      }
+      this.onFileProgress({
+        URIComponent: uri,
+        path: options.to,
+        progress: source.storedSize ?? source.size,
+        status: "saving",
+        msg: `${removeSource ? "Moved" : "Copied"} from ${
+          this.pathToURIComponent(options.path)
+        }.`,
+      });
+      this.#concurrent(this.#collectGarbage());
+      return file;
+    } catch (e) {
+      try {
+        if (this.#readers.has(readerKey)) {
+          await this.#releaseReader(readerKey);
+        }
+        await this.#endSaving(params, version, false);
+        if (removeSource) {
+          await this.#endDeleting(sourceParams, false);
+        }
+        this.#concurrent(this.#discardVersion(uri, version, params, tier));
+      } catch {
+        //
+      }
+      return this.#errorStatus(
+        options.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    }
+  }
+  async #copyDir(
+    options: MoveOptions,
+    removeSource: boolean,
+  ): Promise<FileStatus[]> {
+    options = { ...defaultReadOptions, ...options };
+    if (this.#isUnder(options.to, options.path)) {
+      return [
+        this.#errorStatus(
+          options.to,
+          "The destination cannot be inside the source directory.",
+          options.clientId,
+        ),
+      ];
+    }
+    if (options.validateAccess) {
+      for (const path of [options.path, options.to]) {
+        if (!(await options.validateAccess!(path))) {
+          return [this.#errorStatus(path, "Forbidden", options.clientId)];
+        }
+      }
+    }
+    await this.#initKv();
+    const listParams = [{
+      prefix: ["deno_kv_fs", "files", ...options.path],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const res: FileStatus[] = [];
+    let filesCount = 0;
+    let time = Date.now();
+    for await (
+      const entry of DenoKvFs.pagedListIterator(listParams, this.#kv!)
+    ) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      const filePath = entry.key.slice(2) as string[];
+      const status = await this.#copyFile({
+        ...options,
+        ...{
+          path: filePath,
+          to: [...options.to, ...filePath.slice(options.path.length)],
+        },
+      }, removeSource);
+      if ("status" in status) {
+        res.push(status);
+      }
+    }
+    return res;
+  }
+  //Resumable uploads: the content is appended at known offsets, possibly in
+  //separate requests, and becomes a regular file when the upload is finished.
+  async createUpload(options: UploadOptions): Promise<Upload | FileStatus> {
+    options = { ...defaultUploadOptions, ...options };
+    const checkStatus = await this.#checkSave(options);
+    if (checkStatus) {
+      return checkStatus;
+    }
+    if (
+      options.size !== undefined && options.size > options.maxFileSizeBytes!
+    ) {
+      return this.#errorStatus(
+        options.path,
+        `The file exceeded the maximum allowed of ${options.maxFileSizeBytes} bytes.`,
+        options.clientId,
+      );
+    }
+    await this.#initKv();
+    const encryptionKey = await this.#encryptionKey(options.path);
+    const upload: Upload = {
+      id: crypto.randomUUID(),
+      path: options.path,
+      URIComponent: this.pathToURIComponent(options.path),
+      offset: 0,
+      size: options.size,
+      metadata: options.metadata || {},
+      version: this.#newVersionId(),
+      maxFileSizeBytes: options.maxFileSizeBytes!,
+      expiresAt: Date.now() + options.expiresInMillis!,
+      keyId: encryptionKey?.id,
+      clientId: options.clientId,
+    };
+    await this.#kv!.atomic()
+      .set(["deno_kv_fs", "uploads", upload.id], upload, {
+        expireIn: options.expiresInMillis!,
+      })
+      //the chunks of uploads that expire are deleted by the unresolved files cleanup
+      .set(
+        ["deno_kv_fs", "unresolved", upload.URIComponent, upload.version],
+        {
+          path: upload.path,
+          version: upload.version,
+          expiresAt: upload.expiresAt,
+        },
+      )
+      .commit();
+    return upload;
+  }
+  async getUpload(id: string): Promise<Upload | null> {
+    await this.#initKv();
+    const upload = (await this.#kv!.get(["deno_kv_fs", "uploads", id]))
+      .value as Upload | null;
+    if (upload && upload.expiresAt > Date.now()) {
+      return upload;
+    }
+    return null;
+  }
+  async appendUpload(
+    options: UploadChunkOptions,
+  ): Promise<Upload | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    const upload = await this.getUpload(options.id);
+    if (!upload) {
+      return this.#errorStatus(
+        [],
+        `Upload not found (${options.id}).`,
+        options.clientId,
+      );
+    }
+    if (!(await options.validateAccess!(upload.path))) {
+      return this.#errorStatus(upload.path, "Forbidden", options.clientId);
+    }
+    if (options.offset != upload.offset) {
+      return this.#errorStatus(
+        upload.path,
+        `Wrong upload offset (${options.offset}), the current offset is ${upload.offset}.`,
+        options.clientId,
+      );
+    }
+    if ((await this.#uploadParts(upload.id)).length > 0) {
+      return this.#errorStatus(
+        upload.path,
+        `The upload ${upload.id} is sent in parts, it cannot be appended to.`,
+        options.clientId,
+      );
+    }
+    const chunkSize = this.#plainChunkSize(upload.keyId !== undefined);
+    const params: SaveOptions = {
+      ...defaultSaveOptions,
+      ...options,
+      ...{
+        path: upload.path,
+        metadata: upload.metadata,
+        //the bytes of the first chunk that were already stored count too
+        maxFileSizeBytes: Math.min(
+          upload.maxFileSizeBytes,
+          upload.size === undefined ? Number.MAX_SAFE_INTEGER : upload.size,
+        ) - (upload.offset - upload.offset % chunkSize),
+        expiresAt: upload.expiresAt,
+      },
+    };
+    const lockStatus = await this.#startSaving(params, upload.version);
+    if (lockStatus) {
+      return lockStatus;
+    }
+    try {
+      if (
+        (await this.countClientReqs(params.clientId!)) >
+          params.maxClientIdConcurrentReqs!
+      ) {
+        throw new Error(
+          `You can only make a maximum of ${params
+            .maxClientIdConcurrentReqs!} concurrent requests.`,
+        );
+      }
+      //the last chunk may be partial, it is rewritten with the new bytes appended
+      const encryptionKey = upload.keyId === undefined
+        ? undefined
+        : await this.#encryptionKey(upload.path, upload.keyId);
+      const firstChunk = Math.floor(upload.offset / chunkSize) + 1;
+      let head: Uint8Array = new Uint8Array();
+      if (upload.offset % chunkSize != 0) {
+        const headKey = [
+          "deno_kv_fs",
+          "chunks",
+          upload.URIComponent,
+          upload.version,
+          firstChunk,
+        ];
+        head = await this.#chunkData(
+          await this.#kv!.get(headKey) as Deno.KvEntry<unknown>,
+        );
+        if (encryptionKey) {
+          head = await this.#decryptChunk(head, encryptionKey, headKey);
+        }
+        //a failed append may have rewritten the chunk with more bytes
+        head = head.subarray(0, upload.offset % chunkSize);
+      }
+      if (
+        typeof params.content === "string" || params.content instanceof String
+      ) {
+        params.content = this.#enc.encode(params.content as string);
+      }
+      let savingRes: SaveResult;
+      if (params.content instanceof Uint8Array) {
+        const content = new Uint8Array(head.length + params.content.length);
+        content.set(head);
+        content.set(params.content, head.length);
+        params.content = content;
+        savingRes = await this.#saveFromUint8Array(
+          upload.URIComponent,
+          params,
+          upload.version,
+          firstChunk,
+          encryptionKey,
+        );
+      } else {
+        params.content = this.#prependToStream(
+          head,
+          params.content as ReadableStream,
+        );
+        savingRes = await this.#saveFromReader(
+          upload.URIComponent,
+          params,
+          upload.version,
+          firstChunk,
+          encryptionKey,
+        );
+      }
+      //save() lets the last chunk pass the maximum, an upload must not
+      if (
+        savingRes.flags.includes("incomplete") ||
+        savingRes.size > params.maxFileSizeBytes!
+      ) {
+        throw new Error(
+          `The file exceeded the maximum allowed of ${
+            Math.min(
+              upload.maxFileSizeBytes,
+              upload.size === undefined ? Number.MAX_SAFE_INTEGER : upload.size,
+            )
+          } bytes.`,
+        );
+      }
+      const key = ["deno_kv_fs", "uploads", upload.id];
+      const current = await this.#kv!.get(key);
+      const updated: Upload = {
+        ...upload,
+        offset: (firstChunk - 1) * chunkSize + savingRes.size,
+      };
+      const res = await this.#kv!.atomic()
+        .check(current)
+        .set(key, updated, { expireIn: upload.expiresAt - Date.now() })
+        .commit();
+      if (
+        !res.ok || (current.value as Upload | null)?.offset != upload.offset
+      ) {
+        throw new Error(`The upload was changed concurrently (${upload.id}).`);
+      }
+      await this.#endSaving(params, upload.version, false);
+      return updated;
+    } catch (e) {
+      await this.#endSaving(params, upload.version, false);
+      return this.#errorStatus(
+        upload.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    }
+  }
+  //Stores a numbered piece of the upload (e.g. an S3 part) apart, so the parts
+  //can be sent in any order, concurrently, and sent again (replacing the
+  //previous content of the part). finishUpload joins them in order.
+  async uploadPart(
+    options: UploadPartOptions,
+  ): Promise<UploadPart | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    const upload = await this.getUpload(options.id);
+    if (!upload) {
+      return this.#errorStatus(
+        [],
+        `Upload not found (${options.id}).`,
+        options.clientId,
+      );
+    }
+    if (!(await options.validateAccess!(upload.path))) {
+      return this.#errorStatus(upload.path, "Forbidden", options.clientId);
+    }
+    if (upload.offset > 0) {
+      return this.#errorStatus(
+        upload.path,
+        `The upload ${upload.id} is appended to, it cannot be sent in parts.`,
+        options.clientId,
+      );
+    }
+    const params: SaveOptions = {
+      ...defaultSaveOptions,
+      ...options,
+      ...{
+        path: upload.path,
+        content: options.content,
+        maxFileSizeBytes: Math.min(
+          upload.maxFileSizeBytes,
+          upload.size === undefined ? Number.MAX_SAFE_INTEGER : upload.size,
+        ),
+        expiresAt: upload.expiresAt, //until then, it is not discarded if interrupted
+      },
+    };
+    const version = this.#newVersionId();
+    await this._incrementClientIdReq(params.clientId);
+    try {
+      if (
+        (await this.countClientReqs(params.clientId!)) >
+          params.maxClientIdConcurrentReqs!
+      ) {
+        throw new Error(
+          `You can only make a maximum of ${params
+            .maxClientIdConcurrentReqs!} concurrent requests.`,
+        );
+      }
+      await this.#markUnresolved(params, version);
+      const stored = await this.#storePart(
+        upload,
+        params,
+        version,
+        upload.keyId === undefined
+          ? undefined
+          : await this.#encryptionKey(upload.path, upload.keyId),
+      );
+      const part: UploadPart = {
+        part: options.part,
+        version: version,
+        size: stored.size,
+        checksum: stored.checksum,
+      };
+      const key = ["deno_kv_fs", "upload_parts", upload.id, options.part];
+      while (true) {
+        const uploadEntry = await this.#kv!.get(
+          ["deno_kv_fs", "uploads", upload.id],
+        );
+        if (!uploadEntry.value) { //finished or aborted meanwhile
+          throw new Error(`Upload not found (${upload.id}).`);
+        }
+        const current = await this.#kv!.get(key);
+        const res = await this.#kv!.atomic()
+          .check(uploadEntry)
+          .check(current)
+          .set(key, part, { expireIn: upload.expiresAt - Date.now() })
+          .commit();
+        if (res.ok) {
+          const previous = current.value as UploadPart | null;
+          if (previous) { //sent again
+            this.#concurrent(
+              this.#discardVersion(
+                upload.URIComponent,
+                previous.version,
+                params,
+              ),
+            );
+          }
+          return part;
+        }
+      }
+    } catch (e) {
+      this.#concurrent(
+        this.#discardVersion(upload.URIComponent, version, params),
+      );
+      return this.#errorStatus(
+        upload.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    } finally {
+      await this._decrementClientIdReq(params.clientId);
+    }
+  }
+  async #uploadParts(id: string): Promise<UploadPart[]> {
+    const listParams = [{ prefix: ["deno_kv_fs", "upload_parts", id] }, {
+      limit: this.#maxPageSize,
+    }];
+    const parts: UploadPart[] = [];
+    for await (const p of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      parts.push(p.value as UploadPart);
+    }
+    return parts;
+  }
+  //Writes the content of a part to the chunks of its version.
+  async #storePart(
+    upload: Upload,
+    params: SaveOptions,
+    version: string,
+    encryptionKey?: EncryptionKey,
+  ): Promise<{ size: number; checksum: string }> {
+    let content = params.content;
+    if (typeof content === "string" || content instanceof String) {
+      content = this.#enc.encode(content as string);
+    }
+    if (content instanceof Uint8Array) {
+      const data = content;
+      content = new ReadableStream({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      });
+    }
+    const reader = this.#createByteStream(
+      (content as ReadableStream).getReader(),
+    ).getReader({ mode: "byob" });
+    const hasher = new Sha256();
+    let size = 0;
+    let index = 0;
+    let time = Date.now();
+    let chunksCount = 0;
+    while (true) {
+      const [chunk, done] = await this.#getChunkIter(
+        reader,
+        this.#plainChunkSize(encryptionKey !== undefined),
+      );
+      if (chunk.length > 0) {
+        size += chunk.length;
+        if (size > params.maxFileSizeBytes!) {
+          await reader.cancel();
+          throw new Error(
+            `The file exceeded the maximum allowed of ${params.maxFileSizeBytes} bytes.`,
+          );
+        }
+        index++;
+        const chunkKey = [
+          "deno_kv_fs",
+          "chunks",
+          upload.URIComponent,
+          version,
+          index,
+        ];
+        await this.#setChunk(
+          chunkKey,
+          encryptionKey
+            ? await this.#encryptChunk(chunk, encryptionKey, chunkKey)
+            : chunk,
+        );
+        hasher.update(chunk);
+      }
+      if (done) {
+        return { size: size, checksum: hasher.hex() };
+      }
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        chunksCount++;
+        if (chunksCount > params.chunksPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          chunksCount = 0;
+          time = Date.now();
+        }
+      } else {
+        chunksCount = 0;
+        time = Date.now();
+      }
+    }
+  }
+  //The content of the parts, one after the other.
+  #partsStream(
+    upload: Upload,
+    parts: UploadPart[],
+    options: ReadOptions,
+  ): ReadableStream<Uint8Array> {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    let next = 0;
+    return new ReadableStream({
+      pull: async (controller) => {
+        while (true) {
+          if (!reader) {
+            if (next == parts.length) {
+              controller.close();
+              return;
+            }
+            const part: File = {
+              path: upload.path,
+              URIComponent: upload.URIComponent,
+              flags: [],
+              size: parts[next].size,
+              version: parts[next].version,
+              keyId: upload.keyId,
+            };
+            next++;
+            this.#contentData(part, options);
+            reader = part.content!.getReader();
+          }
+          const { done, value } = await reader.read();
+          if (done) {
+            reader = undefined;
+            continue;
+          }
+          controller.enqueue(value);
+          return;
+        }
+      },
+      cancel: async (reason) => {
+        await reader?.cancel(reason);
+      },
+    });
+  }
+  async finishUpload(
+    id: string,
+    options: FinishUploadOptions = {},
+  ): Promise<File | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    const upload = await this.getUpload(id);
+    if (!upload) {
+      return this.#errorStatus(
+        [],
+        `Upload not found (${id}).`,
+        options.clientId,
+      );
+    }
+    if (!(await options.validateAccess!(upload.path))) {
+      return this.#errorStatus(upload.path, "Forbidden", options.clientId);
+    }
+    const storedParts = await this.#uploadParts(upload.id);
+    const parts = options.parts === undefined
+      ? storedParts
+      : options.parts.map((n) => storedParts.find((p) => p.part == n));
+    const missing = options.parts?.filter((_, i) => !parts[i]) || [];
+    if (missing.length > 0) {
+      return this.#errorStatus(
+        upload.path,
+        `The parts ${missing.join(", ")} were not uploaded.`,
+        options.clientId,
+      );
+    }
+    const size = storedParts.length > 0
+      ? parts.reduce((total, p) => total + p!.size, 0)
+      : upload.offset;
+    if (upload.size !== undefined && size != upload.size) {
+      return this.#errorStatus(
+        upload.path,
+        `The upload is incomplete, ${size} of ${upload.size} bytes received.`,
+        options.clientId,
+      );
+    }
+    const params: SaveOptions = {
+      ...defaultSaveOptions,
+      ...options,
+      ...{ path: upload.path, content: "", expiresAt: upload.expiresAt },
+    };
+    const lockStatus = await this.#startSaving(params, upload.version);
+    if (lockStatus) {
+      return lockStatus;
+    }
+    const file: File = {
+      path: upload.path,
+      URIComponent: upload.URIComponent,
+      metadata: upload.metadata,
+      flags: [],
+      size: size,
+      version: upload.version,
+      clientId: upload.clientId,
+    };
+    if (upload.keyId !== undefined) {
+      file.encryption = "AES-GCM";
+      file.keyId = upload.keyId;
+    }
+    try {
+      if (storedParts.length > 0) { //the parts are copied to the version of the upload
+        params.content = this.#partsStream(upload, parts as UploadPart[], {
+          ...options,
+          ...{ path: upload.path },
+        });
+        params.maxFileSizeBytes = upload.maxFileSizeBytes;
+        const savingRes = await this.#saveFromReader(
+          upload.URIComponent,
+          params,
+          upload.version,
+          1,
+          upload.keyId === undefined
+            ? undefined
+            : await this.#encryptionKey(upload.path, upload.keyId),
+        );
+        if (
+          savingRes.flags.includes("incomplete") ||
+          savingRes.size > upload.maxFileSizeBytes
+        ) {
+          throw new Error(
+            `The file exceeded the maximum allowed of ${upload.maxFileSizeBytes} bytes.`,
+          );
+        }
+        file.checksum = savingRes.checksum;
+      } else {
+        //the pieces were appended in separate requests, so it is computed now
+        file.checksum = await this.#checksumOf(file, {
+          ...options,
+          ...{ path: upload.path, verify: true },
+        });
+      }
+    } catch (e) {
+      await this.#endSaving(params, upload.version, false);
+      return this.#errorStatus(
+        upload.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    }
+    this.#stamp(file);
+    try {
+      await this.#commitFile(upload.path, file, params, [
+        ["deno_kv_fs", "unresolved", upload.URIComponent, upload.version],
+        ["deno_kv_fs", "uploads", upload.id],
+      ]);
+    } catch (e) { //over the quota, the upload can still be aborted
+      await this.#endSaving(params, upload.version);
+      return this.#errorStatus(
+        upload.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    }
+    await this.#endSaving(params, upload.version);
+    await this.#discardParts(upload, params);
+    this.#concurrent(this.#collectGarbage(upload.URIComponent));
+    this.onFileProgress({
+      URIComponent: upload.URIComponent,
+      path: upload.path,
+      progress: size,
+      status: "saving",
+    });
+    return file;
+  }
+  async abortUpload(
+    id: string,
+    options: Omit<ReadOptions, "path"> = {},
+  ): Promise<void | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    const upload = await this.getUpload(id);
+    if (upload) {
+      if (!(await options.validateAccess!(upload.path))) {
+        return this.#errorStatus(upload.path, "Forbidden", options.clientId);
+      }
+      const params = { ...defaultReadOptions, path: upload.path };
+      await this.#kv!.delete(["deno_kv_fs", "uploads", id]);
+      await this.#discardVersion(upload.URIComponent, upload.version, params);
+      await this.#discardParts(upload, params);
+    }
+  }
+  async #discardParts(
+    upload: Upload,
+    params: SaveOptions | ReadOptions,
+  ): Promise<void> {
+    for (const part of await this.#uploadParts(upload.id)) {
+      await this.#kv!.delete([
+        "deno_kv_fs",
+        "upload_parts",
+        upload.id,
+        part.part,
+      ]);
+      await this.#discardVersion(upload.URIComponent, part.version, params);
+    }
+  }
+  #errorStatus(
+    path: string[],
+    msg: string,
+    clientId?: string | number, //of the failed operation
+  ): FileStatus {
+    const status: FileStatus = {
+      URIComponent: this.pathToURIComponent(path),
+      path: path,
+      status: "error",
+      progress: 0,
+      msg: msg,
+    };
+    if (clientId !== undefined) {
+      status.clientId = clientId;
+    }
+    this.onFileProgress(status);
+    return status;
+  }
+  async #checkSave(
+    options: SaveOptions | UploadOptions,
+  ): Promise<FileStatus | undefined> {
+    if (options.metadata) {
+      const metaSize =
+        new TextEncoder().encode(JSON.stringify(options.metadata)).length;
+      if (metaSize > 60 * 1024) {
+        return this.#errorStatus(
+          options.path,
+          "Metadata exceeds 60KB limit",
+          options.clientId,
+        );
+      }
+    }
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        return this.#errorStatus(options.path, "Forbidden", options.clientId);
+      }
+    }
+    return this.#checkExtension(
+      options.path,
+      options.allowedExtensions!,
+      options.clientId,
+    );
+  }
+  #checkExtension(
+    path: string[],
+    allowedExtensions: string[],
+    clientId?: string | number,
+  ): FileStatus | undefined {
+    if (allowedExtensions.length > 0) {
+      const fileExt = path[path.length - 1].split(".").pop();
+      if (!allowedExtensions.includes(fileExt!)) {
+        return this.#errorStatus(
+          path,
+          `The file extension is not allowed (${fileExt} in ${
+            path[path.length - 1]
+          }), allowed extensions: ${allowedExtensions.join(", ")}. `,
+          clientId,
+        );
+      }
+    }
+    return undefined;
+  }
+  #prependToStream(
+    head: Uint8Array,
+    content: ReadableStream,
+  ): ReadableStream<Uint8Array> {
+    const reader = content.getReader();
+    let headSent = head.length == 0;
+    return new ReadableStream({
+      async pull(controller) {
+        if (!headSent) {
+          headSent = true;
+          controller.enqueue(head);
+          return;
+        }
+        const { done, value } = await reader.read();
+        if (value) {
+          controller.enqueue(value);
+        }
+        if (done) {
+          controller.close();
+        }
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+      },
+    });
+  }
+  //Reads and verifies all files under a directory, returning the corrupted ones.
+  async verifyAll(options: ReadOptions = { path: [] }): Promise<FileStatus[]> {
+    options = { ...defaultReadOptions, ...options };
+    await this.#initKv();
+    const listParams = [{
+      prefix: ["deno_kv_fs", "files", ...options.path],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const res: FileStatus[] = [];
+    let filesCount = 0;
+    let time = Date.now();
+    for await (const f of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      const file = f.value as File;
+      file.URIComponent = this.pathToURIComponent(file.path);
+      try {
+        await this.#checksumOf(file, {
+          ...options,
+          ...{ path: file.path, verify: true, start: 0, end: undefined },
+        });
+      } catch (e) {
+        res.push(
+          this.#errorStatus(
+            file.path,
+            (e as Error).message || JSON.stringify(e),
+            options.clientId,
+          ),
+        );
+      }
+    }
+    return res;
+  }
+  //Re-encrypts the encrypted files under a directory that do not use the
+  //current key of their paths. The progress of each file is reported by
+  //"onFileProgress", startKeyRotation runs it in the background.
+  async rotateKey(options: ReadOptions = { path: [] }): Promise<FileStatus[]> {
+    options = { ...defaultReadOptions, ...options };
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        return [this.#errorStatus(options.path, "Forbidden", options.clientId)];
+      }
+    }
+    await this.#initKv();
+    const listParams = [{
+      prefix: ["deno_kv_fs", "files", ...options.path],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const res: FileStatus[] = [];
+    let filesCount = 0;
+    let time = Date.now();
+    for await (const f of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      const file = f.value as File;
+      if (file.keyId === undefined) {
+        continue;
+      }
+      try {
+        const encryptionKey = await this.#encryptionKey(file.path);
+        if (encryptionKey && encryptionKey.id != file.keyId) {
+          const status = await this.#reencrypt(file, encryptionKey, options);
+          if (status) {
+            res.push(status);
+          }
+        }
+      } catch (e) {
+        res.push(
+          this.#errorStatus(
+            file.path,
+            (e as Error).message || JSON.stringify(e),
+            options.clientId,
+          ),
+        );
+      }
+    }
+    return res;
+  }
+  //Runs rotateKey in the background, unless it is already running for the
+  //path. A rotation interrupted (e.g. by a restart) is resumed by starting it
+  //again, the files that already use the current key are skipped.
+  startKeyRotation(options: ReadOptions = { path: [] }): void {
+    const uri = this.pathToURIComponent(options.path);
+    if (this.#keyRotations.has(uri)) {
+      return;
+    }
+    this.#keyRotations.add(uri);
+    this.#concurrent(
+      this.rotateKey(options)
+        .catch((e: Error) =>
+          this.#errorStatus(
+            options.path,
+            e.message || JSON.stringify(e),
+            options.clientId,
+          )
+        )
+        .finally(() => this.#keyRotations.delete(uri)),
+    );
+  }
+  async #reencrypt(
+    file: File,
+    encryptionKey: EncryptionKey,
+    options: ReadOptions,
+  ): Promise<FileStatus | undefined> {
+    const uri = this.pathToURIComponent(file.path);
+    const params: SaveOptions = {
+      ...defaultSaveOptions,
+      ...options,
+      ...{ path: file.path, content: "" },
+    };
+    const version = this.#newVersionId();
+    const lockStatus = await this.#startSaving(params, version);
+    if (lockStatus) {
+      return lockStatus;
+    }
+    let tier: string | undefined;
+    try {
+      const entry = await this.#kv!.get(["deno_kv_fs", "files", ...file.path]);
+      const current = entry.value as File | null;
+      if (!current || current.version !== file.version) {
+        await this.#endSaving(params, version); //it was changed meanwhile
+        return undefined;
+      }
+      if (current.tier !== undefined) { //re-encrypted in the same tier
+        tier = current.tier;
+        await this.#markUnresolved(params, version, tier);
+      }
+      await this.#rewriteChunks(
+        current,
+        params,
+        uri,
+        version,
+        current.tier,
+        encryptionKey,
+      );
+      const committed = await this.#commitFiles(
+        [{
+          path: file.path,
+          file: {
+            ...current,
+            ...{ version: version, keyId: encryptionKey.id },
+          },
+          keepVersion: false, //the same content, with the new key
+        }],
+        params,
+        [["deno_kv_fs", "unresolved", uri, version]],
+        entry.versionstamp!, //not over the changes made meanwhile (e.g. metadata)
+      );
+      if (!committed) { //the next rotation encrypts it again
+        await this.#endSaving(params, version, false);
+        this.#concurrent(this.#discardVersion(uri, version, params, tier));
+        return undefined;
+      }
+      await this.#endSaving(params, version);
+      this.onFileProgress({
+        URIComponent: uri,
+        path: file.path,
+        progress: current.storedSize ?? current.size,
+        status: "saving",
+        msg: `Encrypted with the key ${encryptionKey.id}.`,
+      });
+      this.#concurrent(this.#collectGarbage(uri));
+      return undefined;
+    } catch (e) {
+      try {
+        await this.#endSaving(params, version, false);
+        this.#concurrent(this.#discardVersion(uri, version, params, tier));
+      } catch {
+        //
+      }
+      return this.#errorStatus(
+        file.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    }
+  }
+  //Copies the stored chunks of a file to another version (and URIComponent,
+  //or tier), reporting the progress of the destination. Encrypted chunks are
+  //encrypted again, as their keys are authenticated.
+  async #rewriteChunks(
+    fileData: File,
+    params: SaveOptions | ReadOptions,
+    URIComponent: string,
+    version: string,
+    tier: string | undefined, //of the destination
+    encryptionKey?: EncryptionKey, //of the destination, the one of the file by default
+  ): Promise<void> {
+    const store = this.#chunkStore(tier);
+    const previousKey = fileData.keyId === undefined
+      ? undefined
+      : await this.#encryptionKey(fileData.path, fileData.keyId);
+    encryptionKey = encryptionKey || previousKey;
+    const listParams = [
+      this.#chunksRange(
+        this.pathToURIComponent(fileData.path),
+        fileData.version,
+      ),
+      {
+        limit: this.#maxPageSize,
+      },
+    ];
+    let time = Date.now();
+    let chunksCount = 0;
+    this.#savingFiles[URIComponent] = 0;
+    for await (
+      const value of DenoKvFs.pagedListIterator(
+        listParams,
+        this.#chunkStore(fileData.tier),
+      )
+    ) {
+      const index = value.key[value.key.length - 1] as number;
+      const chunkKey = ["deno_kv_fs", "chunks", URIComponent, version, index];
+      let chunk = await this.#chunkData(value);
+      if (previousKey) {
+        chunk = await this.#encryptChunk(
+          await this.#decryptChunk(chunk, previousKey, value.key),
+          encryptionKey!,
+          chunkKey,
+        );
+      }
+      await this.#setChunk(
+        chunkKey,
+        chunk,
+        //deduplicated chunks stay deduplicated, unless moved to another tier
+        typeof value.value == "string" && store == this.#kv,
+        fileData.chunkChecksums,
+        store,
+      );
+      this.#savingFiles[URIComponent] += chunk.length;
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        chunksCount++;
+        if (chunksCount > params.chunksPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          this.onFileProgress(this.#fileStatus(URIComponent)!);
+          chunksCount = 0;
+          time = Date.now();
+        }
+      } else {
+        chunksCount = 0;
+        time = Date.now();
+        this.onFileProgress(this.#fileStatus(URIComponent)!);
+      }
+    }
+  }
+  //Moves the files under the path to the tier of their pin or of the first
+  //matching tieringRules, and the ones that match none back to the primary KV.
+  //The chunks are copied to a new version in the target tier (reporting the
+  //progress through onFileProgress) and the previous ones are collected.
+  async migrateTiers(
+    options: ReadOptions = { path: [] },
+  ): Promise<FileStatus[]> {
+    options = { ...defaultReadOptions, ...options };
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(options.path))) {
+        return [this.#errorStatus(options.path, "Forbidden", options.clientId)];
+      }
+    }
+    await this.#initKv();
+    const listParams = [{
+      prefix: ["deno_kv_fs", "files", ...options.path],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const res: FileStatus[] = [];
+    let filesCount = 0;
+    let time = Date.now();
+    for await (const f of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
+        filesCount++;
+        if (filesCount > options.maxDirEntriesPerSecond!) {
+          await delay(this.#oneSecondDelayMillis);
+          filesCount = 0;
+          time = Date.now();
+        }
+      } else {
+        filesCount = 0;
+        time = Date.now();
+      }
+      const file = f.value as File;
+      if (this.#isExpired(file)) {
+        continue;
+      }
+      const tier = await this.#targetTier(file);
+      if (tier == (file.tier ?? this.#primaryTier)) {
+        continue;
+      }
+      const status = await this.#migrate(file, tier, options);
+      if (status) {
+        res.push(status);
+      }
+    }
+    return res;
+  }
+  //Runs migrateTiers periodically, a pass starts when the previous one ended.
+  startTierMigrator(
+    intervalMillis: number = 60 * 60 * 1000,
+    options: ReadOptions = { path: [] },
+  ): void {
+    this.stopTierMigrator();
+    let running = false;
+    const run = async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        await this.migrateTiers(options);
+      } catch (e) {
+        this.#errorStatus(
+          options.path,
+          `The tier migration failed (${
+            (e as Error).message || JSON.stringify(e)
+          }).`,
+          options.clientId,
+        );
+      } finally {
+        running = false;
+      }
+    };
+    this.#tierMigrator = setInterval(run, intervalMillis);
+    this.#concurrent(run());
+  }
+  stopTierMigrator(): void {
+    clearInterval(this.#tierMigrator);
+    this.#tierMigrator = undefined;
+  }
+  //Keeps the file in a tier ("primary" for the primary KV) regardless of the
+  //rules, moving it there now. An undefined tier removes the pin.
+  async pinTier(
+    path: string[],
+    tier: string | undefined,
+    options: Omit<ReadOptions, "path"> = {},
+  ): Promise<File | FileStatus> {
+    options = { ...defaultReadOptions, ...options };
+    if (tier !== undefined && tier != this.#primaryTier && !this.tiers[tier]) {
+      return this.#errorStatus(
+        path,
+        `Unknown storage tier (${tier}).`,
+        options.clientId,
+      );
+    }
+    if (options.validateAccess) {
+      if (!(await options.validateAccess!(path))) {
+        return this.#errorStatus(path, "Forbidden", options.clientId);
+      }
+    }
+    await this.#initKv();
+    await this._incrementClientIdReq(options.clientId);
+    try {
+      if (
+        (await this.countClientReqs(options.clientId!)) >
+          options.maxClientIdConcurrentReqs!
+      ) {
+        return this.#errorStatus(
+          path,
+          `You can only make a maximum of ${options
+            .maxClientIdConcurrentReqs!} concurrent requests.`,
+          options.clientId,
+        );
+      }
+      while (true) {
+        const current = await this.#kv!.get(["deno_kv_fs", "files", ...path]);
+        const file = current.value as File | null;
+        if (!file || this.#isExpired(file)) {
+          return this.#errorStatus(
+            path,
+            `File not found (${this.pathToURIComponent(path)}).`,
+            options.clientId,
+          );
+        }
+        const pinned: File = { ...file };
+        if (tier === undefined) {
+          delete pinned.pinnedTier;
+        } else {
+          pinned.pinnedTier = tier;
+        }
+        if (
+          await this.#commitFile(
+            path,
+            pinned,
+            { ...options, ...{ path: path } },
+            [],
+            current.versionstamp!,
+          )
+        ) {
+          const target = await this.#targetTier(pinned);
+          if (target != (pinned.tier ?? this.#primaryTier)) {
+            const status = await this.#migrate(pinned, target, {
+              ...options,
+              ...{ path: path },
+            });
+            if (status) {
+              return status;
+            }
+          }
+          return (await this.#kv!.get(["deno_kv_fs", "files", ...path]))
+            .value as File;
+        }
+      }
+    } finally {
+      await this._decrementClientIdReq(options.clientId);
+    }
+  }
+  async #targetTier(file: File): Promise<string> {
+    if (file.pinnedTier !== undefined) {
+      return file.pinnedTier;
+    }
+    for (const rule of this.tieringRules) {
+      if (rule.path && !this.#isUnder(file.path, rule.path)) {
+        continue;
+      }
+      if (rule.minSizeBytes !== undefined && file.size < rule.minSizeBytes) {
+        continue;
+      }
+      if (rule.minIdleMillis !== undefined) {
+        const accessedAt = (await this.#kv!.get(
+          ["deno_kv_fs", "accessed", this.pathToURIComponent(file.path)],
+        )).value as number | null;
+        const idleMillis = Date.now() -
+          Math.max(accessedAt ?? 0, file.updatedAt ?? file.createdAt ?? 0);
+        if (idleMillis < rule.minIdleMillis) {
+          continue;
+        }
+      }
+      return rule.tier;
+    }
+    return this.#primaryTier;
+  }
+  async #migrate(
+    file: File,
+    tier: string,
+    options: ReadOptions,
+  ): Promise<FileStatus | undefined> {
+    const uri = this.pathToURIComponent(file.path);
+    const target = tier == this.#primaryTier ? undefined : tier;
+    if (target !== undefined && !this.tiers[target]) {
+      return this.#errorStatus(
+        file.path,
+        `Unknown storage tier (${tier}).`,
+        options.clientId,
+      );
+    }
+    const params: SaveOptions = {
+      ...defaultSaveOptions,
+      ...options,
+      ...{ path: file.path, content: "" },
+    };
+    const version = this.#newVersionId();
+    const lockStatus = await this.#startSaving(params, version, target);
+    if (lockStatus) {
+      return lockStatus;
+    }
+    try {
+      const entry = await this.#kv!.get(["deno_kv_fs", "files", ...file.path]);
+      const current = entry.value as File | null;
+      if (!current || current.version !== file.version) {
+        await this.#endSaving(params, version); //it was changed meanwhile
+        return undefined;
+      }
+      this.#progressInfo[uri].totalBytes = current.storedSize ?? current.size;
+      await this.#rewriteChunks(
+        current,
+        params,
+        uri,
+        version,
+        target,
+      );
+      const migrated: File = { ...current, ...{ version: version } };
+      if (target === undefined) {
+        delete migrated.tier;
+      } else {
+        migrated.tier = target;
+      }
+      const committed = await this.#commitFiles(
+        [{
+          path: file.path,
+          file: migrated,
+          keepVersion: false, //the same content, in another tier
+        }],
+        params,
+        [["deno_kv_fs", "unresolved", uri, version]],
+        entry.versionstamp!, //not over the changes made meanwhile (e.g. a pin)
+      );
+      if (!committed) { //the next pass migrates it again
+        await this.#endSaving(params, version, false);
+        this.#concurrent(this.#discardVersion(uri, version, params, target));
+        return undefined;
+      }
+      await this.#endSaving(params, version);
+      this.onFileProgress({
+        URIComponent: uri,
+        path: file.path,
+        progress: current.storedSize ?? current.size,
+        status: "saving",
+        msg: `Moved to the tier ${tier}.`,
+      });
+      this.#concurrent(this.#collectGarbage(uri));
+      return undefined;
+    } catch (e) {
+      try {
+        await this.#endSaving(params, version, false);
+        this.#concurrent(this.#discardVersion(uri, version, params, target));
+      } catch {
+        //
+      }
+      return this.#errorStatus(
+        file.path,
+        (e as Error).message || JSON.stringify(e),
+        options.clientId,
+      );
+    }
+  }
+  //Records when the file was read, for the minIdleMillis of the tieringRules.
+  //A failure is reported by "onFileProgress".
+  async #touchFile(URIComponent: string): Promise<void> {
+    if (!this.tieringRules.some((r) => r.minIdleMillis !== undefined)) {
+      return;
+    }
+    const touchedAt = this.#touchedFiles.get(URIComponent);
+    if (
+      touchedAt !== undefined &&
+      Date.now() - touchedAt < this.#accessResolutionMillis
+    ) {
+      return;
+    }
+    if (this.#touchedFiles.size >= this.#maxPageSize) {
+      this.#touchedFiles.clear();
+    }
+    this.#touchedFiles.set(URIComponent, Date.now());
+    try {
+      await this.#kv!.set(["deno_kv_fs", "accessed", URIComponent], Date.now());
+    } catch (e) {
+      this.#errorStatus(
+        this.URIComponentToPath(URIComponent),
+        `The access time could not be recorded (${
+          (e as Error).message || JSON.stringify(e)
+        }).`,
+      );
+    }
+  }
+  #chunkStore(tier: string | undefined): StorageBackend {
+    if (tier === undefined || tier == this.#primaryTier) {
+      return this.#kv!;
+    }
+    if (!this.tiers[tier]) {
+      throw new Error(`Unknown storage tier (${tier}).`);
+    }
+    return this.tiers[tier];
+  }
+  async getDeduplicationStats(): Promise<DeduplicationStats> {
+    await this.#initKv();
+    const listParams = [{
+      prefix: ["deno_kv_fs", "chunk_refs"],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const stats: DeduplicationStats = {
+      chunks: 0,
+      storedBytes: 0,
+      referencedBytes: 0,
+      savedBytes: 0,
+    };
+    for await (const r of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      const refs = r.value as ChunkRefs;
+      stats.chunks++;
+      stats.storedBytes += refs.size;
+      stats.referencedBytes += refs.size * refs.count;
+    }
+    stats.savedBytes = stats.referencedBytes - stats.storedBytes;
+    return stats;
+  }
+  //Stops the tier migrator and the heartbeat and waits for the concurrent
+  //operations (such as the garbage collection). The KV is closed when it was
+  //opened by DenoKvFs, a KV passed to the constructor is left to its owner.
+  async close(): Promise<void> {
+    this.stopTierMigrator();
+    while (this.#tasks.size > 0) {
+      await Promise.allSettled(this.#tasks);
+    }
+    clearInterval(this.#heartbeat);
+    this.#heartbeat = undefined;
+    if (this.#ownsKv) {
+      this.#kv!.close();
+      this.#kv = undefined;
+      this.#ownsKv = false;
+    }
+  }
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+  //Runs the operation without awaiting it, close() waits for it to end.
+  #concurrent(task: Promise<unknown>): void {
+    this.#tasks.add(task);
+    task.finally(() => this.#tasks.delete(task));
+  }
+  async #initKv(): Promise<void> {
+    if (!this.#kv) {
+      this.#kv = await Deno.openKv();
+      this.#ownsKv = true;
+    }
+  }
+  async #deleteUnresolvedFiles(): Promise<void> {
+    await this.#initKv();
+    const listParamsSaving = [{
+      prefix: ["deno_kv_fs", "unresolved"],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    for await (
+      const f of DenoKvFs.pagedListIterator(listParamsSaving, this.#kv!)
+    ) {
+      if (await this.#lockStatus(f.value.path)) {
+        continue; //still in progress on a live instance
+      }
+      if (f.value.expiresAt > Date.now()) {
+        continue; //resumable upload that has not expired
+      }
+      if (f.value.version) { //a save that never committed its version
+        this.#concurrent(
+          this.#discardVersion(
+            f.key[2],
+            f.value.version,
+            f.value,
+            f.value.tier,
+          ),
+        );
+      } else {
+        this.#concurrent(this.delete(f.value as ReadOptions));
+      }
+    }
+    this.#concurrent(this.#collectGarbage());
+    this.#concurrent(this.emptyTrash({ expiredOnly: true }));
+    this.#concurrent(this.deleteExpired());
+  }
+  #newVersionId(): string {
+    //time-sortable, so the versions of a file are listed in saving order
+    return `${
+      Date.now().toString(36).padStart(10, "0")
+    }-${crypto.randomUUID()}`;
+  }
+  #chunksRange(
+    URIComponent: string,
+    version: string | undefined,
+    from: number = 1,
+    to: number = Number.MAX_SAFE_INTEGER,
+    root: string = "chunks",
+  ): { start: Deno.KvKey; end: Deno.KvKey } {
+    //files saved without a version keep their chunks directly under the URIComponent
+    const prefix = version
+      ? ["deno_kv_fs", root, URIComponent, version]
+      : ["deno_kv_fs", root, URIComponent];
+    return { start: [...prefix, from], end: [...prefix, to] };
+  }
+  //Swaps the file record in a single atomic commit (a null file removes it),
+  //marking the chunks of the replaced version as garbage.
+  async #commitFile(
+    path: string[],
+    file: File | null,
+    params: SaveOptions | ReadOptions,
+    resolvedKeys: Deno.KvKey[] = [],
+    versionstamp?: string, //commits only if the record was not changed meanwhile
+  ): Promise<File | null | undefined> {
+    return (await this.#commitFiles(
+      [{ path: path, file: file }],
+      params,
+      resolvedKeys,
+      versionstamp,
+    ))?.[0];
+  }
+  async #commitFiles(
+    changes: {
+      path: string[];
+      file: File | null;
+      keepVersion?: boolean;
+      trash?: boolean; //the removed file is moved to the trash
+      ifMatch?: string;
+      from?: string[]; //moved from the path, which is removed in the same changes
+    }[],
+    params: SaveOptions | ReadOptions,
+    resolvedKeys: Deno.KvKey[] = [],
+    versionstamp?: string,
+    checks: Deno.AtomicCheck[] = [],
+  ): Promise<(File | null)[] | undefined> {
+    while (true) {
+      const op = this.#kv!.atomic();
+      for (const check of checks) {
+        op.check(check);
+      }
+      const previousFiles: (File | null)[] = [];
+      const policies: { path: string[]; policy: VersionPolicy }[] = [];
+      const dirsChanges = new Map<
+        string,
+        { path: string[]; size: number; filesCount: number }
+      >();
+      const clientsChanges = new Map<string | number, Usage>();
+      const events: Omit<ChangeEvent, "cursor">[] = [];
+      for (const change of changes) {
+        const key = ["deno_kv_fs", "files", ...change.path];
+        const current = await this.#kv!.get(key);
+        if (versionstamp && current.versionstamp !== versionstamp) {
+          return undefined;
+        }
+        const previous = current.value as File | null;
+        if (
+          change.ifMatch !== undefined &&
+          !this.#ifMatch(previous, change.ifMatch)
+        ) {
+          throw new Error(this.#preconditionFailed);
+        }
+        if (change.file && previous?.createdAt !== undefined) {
+          change.file.createdAt = previous.createdAt; //an overwrite keeps it
+        }
+        if (
+          change.file && previous?.pinnedTier !== undefined &&
+          change.file.pinnedTier === undefined &&
+          change.file.version !== previous.version
+        ) {
+          change.file.pinnedTier = previous.pinnedTier; //and the pin of the file
+        }
+        previousFiles.push(previous);
+        op.check(current);
+        const uri = this.pathToURIComponent(change.path);
+        if (this.#fileIsSaving(uri) || this.#fileIsDeleting(uri)) {
+          //fenced: a saver whose lease expired (e.g. after a long pause) does
+          //not commit over the new owner of the lock
+          const lock = await this.#kv!.get([
+            "deno_kv_fs",
+            "locks",
+            ...change.path,
+          ]);
+          if ((lock.value as FileLock | null)?.owner !== this.#instanceId) {
+            throw new Error(
+              `The lock of ${uri} expired, the changes were not committed.`,
+            );
+          }
+          op.check(lock);
+        }
+        if (change.file) {
+          op.set(key, change.file);
+        } else {
+          op.delete(key);
+          op.delete(["deno_kv_fs", "accessed", uri]);
+        }
+        const event = this.#changeEvent(change, previous, changes);
+        if (event) {
+          events.push(event);
+        }
+        for (const indexKey of this.#indexKeys(previous?.metadata, uri)) {
+          op.delete(indexKey);
+        }
+        for (const indexKey of this.#indexKeys(change.file?.metadata, uri)) {
+          op.set(indexKey, change.path);
+        }
+        if (previous?.expiresAt !== undefined) {
+          op.delete(["deno_kv_fs", "expiring", previous.expiresAt, uri]);
+        }
+        if (change.file?.expiresAt !== undefined) {
+          op.set(
+            ["deno_kv_fs", "expiring", change.file.expiresAt, uri],
+            change.path,
+          );
+          if (this.#expiryWorker) {
+            this.#enqueueExpiry(op, change.path, change.file.expiresAt);
+          }
+        }
+        for (
+          const [f, sign] of [[previous, -1], [change.file, 1]] as const
+        ) {
+          if (f?.clientId !== undefined) {
+            const usage = clientsChanges.get(f.clientId) ||
+              { size: 0, filesCount: 0 };
+            usage.size += sign * f.size;
+            usage.filesCount += sign;
+            clientsChanges.set(f.clientId, usage);
+          }
+        }
+        const size = (change.file?.size ?? 0) - (previous?.size ?? 0);
+        const filesCount = (change.file ? 1 : 0) - (previous ? 1 : 0);
+        if (size || filesCount) {
+          for (let i = 1; i < change.path.length; i++) {
+            const dirPath = change.path.slice(0, i);
+            const uri = this.pathToURIComponent(dirPath);
+            const dirChange = dirsChanges.get(uri) ||
+              { path: dirPath, size: 0, filesCount: 0 };
+            dirChange.size += size;
+            dirChange.filesCount += filesCount;
+            dirsChanges.set(uri, dirChange);
+          }
+        }
+        const policy = change.file && change.keepVersion !== false
+          ? this.versionPolicy?.(change.path)
+          : undefined;
+        if (
+          previous && previous.version !== change.file?.version && policy
+        ) {
+          op.set(
+            ["deno_kv_fs", "versions", uri, previous.version || ""],
+            { ...previous, ...{ replacedAt: Date.now() } },
+          );
+          policies.push({ path: change.path, policy: policy });
+        } else if (previous && change.trash) {
+          const trashItem: TrashItem = {
+            id: this.#newVersionId(),
+            path: previous.path,
+            deletedAt: Date.now(),
+            expiresAt: Date.now() + this.trashRetentionMillis,
+            file: previous,
+          };
+          op.set(["deno_kv_fs", "trash", trashItem.id], trashItem);
+        } else if (previous && previous.version !== change.file?.version) {
+          op.set(
+            [
+              "deno_kv_fs",
+              "garbage",
+              this.pathToURIComponent(previous.path),
+              previous.version || "",
+            ],
+            {
+              path: previous.path,
+              version: previous.version,
+              tier: previous.tier,
+              chunksPerSecond: params.chunksPerSecond,
+            },
+          );
+        }
+      }
+      const dirsUsages = new Map<string, Usage>(); //after the commit
+      const clientsUsages = new Map<string | number, Usage>();
+      //read together, a retry after a conflict waits for one round trip
+      const dirsEntries = await Promise.all(
+        [...dirsChanges.values()].map((d) =>
+          this.#kv!.get(this.#dirKey(d.path))
+        ),
+      );
+      for (const [i, dirChange] of [...dirsChanges.values()].entries()) {
+        const key = this.#dirKey(dirChange.path);
+        const current = dirsEntries[i];
+        op.check(current);
+        const dir: Dir = (current.value as Dir | null) || {
+          path: dirChange.path,
+          URIComponent: this.pathToURIComponent(dirChange.path),
+          size: 0,
+          filesCount: 0,
+          explicit: false,
+        };
+        //files saved before the directories were tracked are not counted,
+        //until rebuildDirs
+        dir.size = Math.max(0, dir.size + dirChange.size);
+        dir.filesCount = Math.max(0, dir.filesCount + dirChange.filesCount);
+        if (dir.filesCount == 0 && !dir.explicit) {
+          op.delete(key);
+        } else {
+          op.set(key, dir);
+        }
+        dirsUsages.set(dir.URIComponent, dir);
+      }
+      for (const [clientId, clientChange] of clientsChanges) {
+        if (!clientChange.size && !clientChange.filesCount) {
+          continue;
+        }
+        const key = ["deno_kv_fs", "usage", clientId];
+        const current = await this.#kv!.get(key);
+        op.check(current);
+        const usage: Usage = (current.value as Usage | null) ||
+          { size: 0, filesCount: 0 };
+        usage.size = Math.max(0, usage.size + clientChange.size);
+        usage.filesCount = Math.max(
+          0,
+          usage.filesCount + clientChange.filesCount,
+        );
+        if (usage.filesCount == 0) {
+          op.delete(key);
+        } else {
+          op.set(key, usage);
+        }
+        clientsUsages.set(clientId, usage);
+      }
+      for (const change of changes) {
+        if (!change.file) {
+          continue;
+        }
+        const quotas = this.quotaPolicy?.(change.path, change.file.clientId) ||
+          [];
+        for (const quota of quotas) {
+          if (quota.path && !this.#isUnder(change.path, quota.path)) {
+            continue;
+          }
+          const target = quota.path
+            ? this.pathToURIComponent(quota.path)
+            : change.file.clientId;
+          const usageChange = quota.path
+            ? dirsChanges.get(target as string)
+            : clientsChanges.get(target!);
+          const usage = quota.path
+            ? dirsUsages.get(target as string)
+            : clientsUsages.get(target!);
+          //only the changes that increase the usage are rejected
+          if (
+            usage && usageChange &&
+            ((usageChange.size > 0 &&
+              usage.size > (quota.maxBytes ?? Infinity)) ||
+              (usageChange.filesCount > 0 &&
+                usage.filesCount > (quota.maxFiles ?? Infinity)))
+          ) {
+            throw new Error(
+              `The quota of ${
+                quota.path ? target : `the client ${target}`
+              } would be exceeded.`,
+            );
+          }
+        }
+      }
+      //each event is numbered in the shard of its path, the heads are watched
+      //by watch
+      const heads = new Map<number, number>();
+      for (const event of events) {
+        const shard = this.#changeShard(event.URIComponent);
+        if (!heads.has(shard)) {
+          const head = await this.#kv!.get([
+            "deno_kv_fs",
+            "changes_head",
+            shard,
+          ]);
+          op.check(head);
+          heads.set(shard, (head.value as number | null) ?? 0);
+        }
+        const sequence = heads.get(shard)! + 1;
+        heads.set(shard, sequence);
+        op.set(["deno_kv_fs", "changes", shard, sequence], event, {
+          expireIn: this.changeRetentionMillis,
+        });
+      }
+      for (const [shard, sequence] of heads) {
+        op.set(["deno_kv_fs", "changes_head", shard], sequence);
+      }
+      for (const resolvedKey of resolvedKeys) {
+        op.delete(resolvedKey);
+      }
+      if ((await op.commit()).ok) {
+        for (const p of policies) {
+          this.#concurrent(this.#pruneVersions(p.path, p.policy, params));
+        }
+        return previousFiles;
+      }
+      for (const check of checks) {
+        if (
+          (await this.#kv!.get(check.key)).versionstamp !== check.versionstamp
+        ) {
+          return undefined; //the checked entries will not change back
+        }
+      }
+    }
+  }
+  #changeEvent(
+    change: {
+      path: string[];
+      file: File | null;
+      keepVersion?: boolean;
+      from?: string[];
+    },
+    previous: File | null,
+    changes: { path: string[]; file: File | null; from?: string[] }[],
+  ): Omit<ChangeEvent, "cursor"> | undefined {
+    if (change.keepVersion === false) {
+      return undefined; //the same content (e.g. encrypted with a new key)
+    }
+    const uri = this.pathToURIComponent(change.path);
+    if (
+      !change.file &&
+      changes.some((c) => c.from && this.pathToURIComponent(c.from) == uri)
+    ) {
+      return undefined; //the source of a move, reported by the destination
+    }
+    const file = change.file || previous;
+    if (!file) {
+      return undefined;
+    }
+    const event: Omit<ChangeEvent, "cursor"> = {
+      type: change.from
+        ? "moved"
+        : !previous
+        ? "created"
+        : change.file
+        ? "updated"
+        : "deleted",
+      path: change.path,
+      URIComponent: uri,
+      size: file.size,
+      metadata: file.metadata || {},
+      version: file.version,
+      at: Date.now(),
+    };
+    if (change.from) {
+      event.from = change.from;
+    }
+    return event;
+  }
+  //Moves the versions beyond the policy to the garbage, which is collected
+  //respecting the chunksPerSecond.
+  async #pruneVersions(
+    path: string[],
+    policy: VersionPolicy,
+    params: SaveOptions | ReadOptions,
+  ): Promise<void> {
+    const uri = this.pathToURIComponent(path);
+    const listParams = [{ prefix: ["deno_kv_fs", "versions", uri] }, {
+      limit: this.#maxPageSize,
+      reverse: true,
+    }];
+    let versionsCount = 0;
+    let pruned = false;
+    for await (const v of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      versionsCount++;
+      const file = v.value as File;
+      if (
+        versionsCount > (policy.maxVersions ?? Number.MAX_SAFE_INTEGER) ||
+        Date.now() - file.replacedAt! >
+          (policy.maxAgeMillis ?? Number.MAX_SAFE_INTEGER)
+      ) {
+        await this.#kv!.atomic()
+          .check(v)
+          .delete(v.key)
+          .set(["deno_kv_fs", "garbage", uri, v.key[3]], {
+            path: file.path,
+            version: file.version,
+            tier: file.tier,
+            chunksPerSecond: params.chunksPerSecond,
+          })
+          .commit();
+        pruned = true;
+      }
+    }
+    if (pruned) {
+      await this.#collectGarbage(uri);
+    }
+  }
+  #ifMatch(file: File | null, ifMatch: string): boolean {
+    if (ifMatch == "*") {
+      return !!file;
+    }
+    const etag = ifMatch.startsWith('"') ? ifMatch : `"${ifMatch}"`;
+    return !!file && DenoKvFs.etag(file) == etag;
+  }
+  //Dates and ETag of newly stored content.
+  #stamp(file: File): void {
+    file.createdAt = Date.now();
+    file.updatedAt = file.createdAt;
+    if (file.checksum) {
+      file.etag = `"${file.checksum}"`;
+    }
+  }
+  //Index keys of the metadata: ["deno_kv_fs", "index", field, value, URIComponent].
+  //Each element of an array is indexed, so files can be queried by a tag.
+  #indexKeys(
+    metadata: Record<string, unknown> | undefined,
+    URIComponent: string,
+  ): Deno.KvKey[] {
+    const keys: Deno.KvKey[] = [];
+    if (!metadata) {
+      return keys;
+    }
+    for (const field of this.indexedFields) {
+      for (const value of this.#indexValues(metadata, field)) {
+        keys.push(["deno_kv_fs", "index", field, value, URIComponent]);
+      }
+    }
+    return keys;
+  }
+  #indexValues(
+    metadata: Record<string, unknown> | undefined,
+    field: string,
+  ): IndexValue[] {
+    let value: unknown = metadata;
+    for (const part of field.split(".")) {
+      value = (value as Record<string, unknown> | undefined)?.[part];
+    }
+    return [...new Set(Array.isArray(value) ? value : [value])].filter((v) =>
+      ["string", "number", "bigint", "boolean"].includes(typeof v)
+    );
+  }
+  //Directories are indexed by their parent, so the immediate subdirectories of
+  //a directory can be listed without walking the ones beneath them.
+  #dirKey(path: string[]): Deno.KvKey {
+    return [
+      "deno_kv_fs",
+      "dirs",
+      this.pathToURIComponent(path.slice(0, -1)),
+      path[path.length - 1],
+    ];
+  }
+  //Lists only the files directly under the path, jumping over each subdirectory.
+  async *#shallowFilesIterator(
+    path: string[],
+    cursor?: string,
+  ): AsyncGenerator<Deno.KvEntry<unknown> & { cursor: string }> {
+    const prefix = ["deno_kv_fs", "files", ...path];
+    let start: Deno.KvKey | undefined = cursor !== undefined
+      ? [...prefix, cursor + "\0"]
+      : undefined;
+    while (true) {
+      const selector = start ? { prefix: prefix, start: start } : {
+        prefix: prefix,
+      };
+      let entriesCount = 0;
+      let name: string | undefined;
+      let subdir = false;
+      for await (
+        const entry of this.#kv!.list(selector, { limit: this.#maxPageSize })
+      ) {
+        entriesCount++;
+        name = entry.key[prefix.length] as string;
+        if (entry.key.length > prefix.length + 1) {
+          subdir = true;
+          break;
+        }
+        yield { ...entry, ...{ cursor: name } };
+      }
+      if (!subdir && entriesCount < this.#maxPageSize) {
+        return;
+      }
+      start = [...prefix, name + "\0"]; //the first key after name and its subkeys
+    }
+  }
+  async #discardVersion(
+    URIComponent: string,
+    version: string,
+    params: SaveOptions | ReadOptions,
+    tier?: string,
+  ): Promise<void> {
+    await this.#kv!.atomic()
+      .set(["deno_kv_fs", "garbage", URIComponent, version], {
+        path: params.path,
+        version: version,
+        tier: tier,
+        chunksPerSecond: params.chunksPerSecond,
+      })
+      .delete(["deno_kv_fs", "unresolved", URIComponent, version])
+      .commit();
+    await this.#collectGarbage(URIComponent);
+  }
+  //Deletes the chunks of replaced or discarded versions. Versions that are
+  //still being streamed by some reader are kept until the last one finishes.
+  async #collectGarbage(URIComponent?: string): Promise<void> {
+    await this.#initKv();
+    const listParams = [{
+      prefix: URIComponent === undefined
+        ? ["deno_kv_fs", "garbage"]
+        : ["deno_kv_fs", "garbage", URIComponent],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    for await (const g of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      await this.#collectVersion(
+        g.key[2],
+        g.value.version,
+        {
+          ...defaultReadOptions,
+          ...g.value,
+        },
+        false,
+        g.value.tier,
+      );
+    }
+  }
+  async #collectVersion(
+    URIComponent: string,
+    version: string | undefined,
+    params: ReadOptions,
+    reportProgress: boolean = false,
+    tier?: string,
+  ): Promise<void> {
+    if (tier !== undefined && !this.tiers[tier]) {
+      return; //left to the instances that have the tier
+    }
+    //once marked as collecting (atomically with no reader having arrived
+    //since the check), no new reader lease is granted for the version
+    const markerKey = [
+      "deno_kv_fs",
+      "version_readers",
+      URIComponent,
+      version || "",
+    ];
+    const marker = await this.#kv!.get(markerKey);
+    if (!(marker.value as { collecting?: boolean } | null)?.collecting) {
+      if (await this.#versionHasReaders(URIComponent, version)) {
+        return;
+      }
+      const res = await this.#kv!.atomic()
+        .check(marker)
+        .set(markerKey, { collecting: true })
+        .commit();
+      if (!res.ok) {
+        return; //a reader arrived, its release collects the version
+      }
+    }
+    await this.#deleteChunks(params, version, reportProgress, tier);
+    await this.#kv!.atomic()
+      .delete(["deno_kv_fs", "garbage", URIComponent, version || ""])
+      .delete(markerKey)
+      .commit();
+  }
+  async #versionHasReaders(
+    URIComponent: string,
+    version: string | undefined,
+  ): Promise<boolean> {
+    const readers = this.#kv!.list({
+      prefix: ["deno_kv_fs", "readers", URIComponent, version || ""],
+    });
+    for await (const r of readers) {
+      if ((r.value as number) > Date.now()) { //leases may outlive their expireIn
+        return true;
+      }
+    }
+    return false;
+  }
+  async #renewReader(readerKey: Deno.KvKey): Promise<void> {
+    await this.#kv!.set(readerKey, Date.now() + this.#leaseMillis, {
+      expireIn: this.#leaseMillis,
+    });
+  }
+  #readerKey(
+    URIComponent: string,
+    version: string | undefined,
+  ): Deno.KvKeyPart[] {
+    return [
+      "deno_kv_fs",
+      "readers",
+      URIComponent,
+      version || "",
+      crypto.randomUUID(),
+    ];
+  }
+  //Takes a lease unless the version is being collected. It is renewed by the
+  //heartbeat only once held (when the stream starts), so the lease of a stream
+  //that is never consumed lapses by itself.
+  async #acquireReader(readerKey: Deno.KvKey): Promise<boolean> {
+    const markerKey = [
+      "deno_kv_fs",
+      "version_readers",
+      readerKey[2],
+      readerKey[3],
+    ];
+    while (true) {
+      const marker = await this.#kv!.get(markerKey);
+      if ((marker.value as { collecting?: boolean } | null)?.collecting) {
+        return false;
+      }
+      //the marker changes, so a collector that checked the leases before
+      //fails to mark the version
+      const res = await this.#kv!.atomic()
+        .check(marker)
+        .set(markerKey, { readAt: Date.now() })
+        .set(readerKey, Date.now() + this.#leaseMillis, {
+          expireIn: this.#leaseMillis,
+        })
+        .commit();
+      if (res.ok) {
+        return true;
+      }
+    }
   }
-  async #initKv(): Promise<void> {
-    if (!this.#kv) {
-      this.#kv = await Deno.openKv();
-    }
+  async #holdReader(readerKey: Deno.KvKey): Promise<void> {
+    this.#readers.add(readerKey);
+    await this.#renewReader(readerKey);
+    this.#startHeartbeat();
   }
-  async #deleteUnresolvedFiles(): Promise<void> {
-    await this.#initKv();
-    const listParamsSaving = [{
-      prefix: ["deno_kv_fs", "unresolved"],
-    }, {
-      limit: this.#maxPageSize,
-    }];
-    for await (
-      const f of DenoKvFs.pagedListIterator(listParamsSaving, this.#kv!)
-    ) {
-      this.delete(f.value as ReadOptions); //concurrent
+  async #releaseReader(readerKey: Deno.KvKey): Promise<void> {
+    this.#readers.delete(readerKey);
+    await this.#kv!.delete(readerKey);
+    const garbage = await this.#kv!.get(
+      ["deno_kv_fs", "garbage", readerKey[2], readerKey[3]],
+    );
+    if (garbage.value) {
+      this.#concurrent(this.#collectGarbage(readerKey[2] as string));
     }
   }
   #fileIsSaving(URIComponent: string): boolean {
@@ -551,15 +4410,16 @@ class DenoKvFs {
     return (URIComponent in this.#deletingFiles);
   }
   #fileStatus(URIComponent: string): FileStatus | undefined {
+    let status: FileStatus;
     if (this.#fileIsSaving(URIComponent)) {
-      return {
+      status = {
         URIComponent: URIComponent,
         path: this.URIComponentToPath(URIComponent),
         progress: this.#savingFiles[URIComponent],
         status: "saving",
       };
     } else if (this.#fileIsDeleting(URIComponent)) {
-      return {
+      status = {
         URIComponent: URIComponent,
         path: this.URIComponentToPath(URIComponent),
         progress: this.#deletingFiles[URIComponent],
@@ -568,55 +4428,322 @@ class DenoKvFs {
     } else {
       return undefined;
     }
+    const info = this.#progressInfo[URIComponent];
+    if (info) {
+      if (info.clientId !== undefined) {
+        status.clientId = info.clientId;
+      }
+      const elapsed = Date.now() - info.startedAt;
+      status.bytesPerSecond = elapsed > 0
+        ? Math.round(status.progress * 1000 / elapsed)
+        : 0;
+      if (info.totalBytes !== undefined) {
+        status.totalBytes = info.totalBytes;
+        if (status.bytesPerSecond > 0) {
+          status.etaMillis = Math.round(
+            Math.max(0, info.totalBytes - status.progress) * 1000 /
+              status.bytesPerSecond,
+          );
+        }
+      }
+    }
+    return status;
+  }
+  #archiveStatus(
+    path: string[],
+    status: "exporting" | "importing",
+    progress: number,
+    startedAt: number,
+    clientId: string | number | undefined,
+    msg: string,
+  ): FileStatus {
+    const res: FileStatus = {
+      URIComponent: this.pathToURIComponent(path),
+      path: path,
+      progress: progress,
+      status: status,
+      msg: msg,
+    };
+    if (clientId !== undefined) {
+      res.clientId = clientId;
+    }
+    const elapsed = Date.now() - startedAt;
+    res.bytesPerSecond = elapsed > 0
+      ? Math.round(progress * 1000 / elapsed)
+      : 0;
+    return res;
+  }
+  #lockToStatus(lock: FileLock): FileStatus {
+    const URIComponent = this.pathToURIComponent(lock.path);
+    //the local counters are more recent than the last heartbeat
+    const status: FileStatus = this.#fileStatus(URIComponent) || {
+      URIComponent: URIComponent,
+      path: lock.path,
+      progress: lock.progress,
+      status: lock.status,
+    };
+    if (status.clientId === undefined && lock.clientId !== undefined) {
+      status.clientId = lock.clientId;
+    }
+    return status;
+  }
+  async #lockStatus(path: string[]): Promise<FileStatus | undefined> {
+    const status = this.#fileStatus(this.pathToURIComponent(path));
+    if (status) {
+      return status;
+    }
+    await this.#initKv();
+    const lock = (await this.#kv!.get(["deno_kv_fs", "locks", ...path]))
+      .value as FileLock | null;
+    if (lock && lock.expiresAt > Date.now()) {
+      return this.#lockToStatus(lock);
+    }
+    return undefined;
+  }
+  //Statuses of all the files under a directory, indexed by URIComponent.
+  async #lockStatuses(path: string[]): Promise<Map<string, FileStatus>> {
+    await this.#initKv();
+    const listParams = [{
+      prefix: ["deno_kv_fs", "locks", ...path],
+    }, {
+      limit: this.#maxPageSize,
+    }];
+    const res: Map<string, FileStatus> = new Map();
+    for await (const l of DenoKvFs.pagedListIterator(listParams, this.#kv!)) {
+      if ((l.value as FileLock).expiresAt > Date.now()) {
+        const status = this.#lockToStatus(l.value as FileLock);
+        res.set(status.URIComponent, status);
+      }
+    }
+    return res;
+  }
+  async #acquireLock(
+    path: string[],
+    status: "saving" | "deleting",
+    clientId: string | number | undefined,
+  ): Promise<FileStatus | undefined> {
+    const key = ["deno_kv_fs", "locks", ...path];
+    while (true) {
+      const current = await this.#kv!.get(key);
+      const lock = current.value as FileLock | null;
+      if (lock && lock.expiresAt > Date.now()) {
+        return this.#lockToStatus(lock);
+      }
+      const res = await this.#kv!.atomic()
+        .check(current)
+        .set(key, {
+          owner: this.#instanceId,
+          path: path,
+          status: status,
+          progress: 0,
+          expiresAt: Date.now() + this.#leaseMillis,
+          clientId: clientId,
+        }, { expireIn: this.#leaseMillis })
+        .commit();
+      if (res.ok) {
+        this.#startHeartbeat();
+        return undefined;
+      }
+    }
+  }
+  async #renewLock(path: string[], progress: number): Promise<void> {
+    const key = ["deno_kv_fs", "locks", ...path];
+    const current = await this.#kv!.get(key);
+    const lock = current.value as FileLock | null;
+    if (lock && lock.owner == this.#instanceId) {
+      await this.#kv!.atomic()
+        .check(current)
+        .set(key, {
+          ...lock,
+          progress: progress,
+          expiresAt: Date.now() + this.#leaseMillis,
+        }, { expireIn: this.#leaseMillis })
+        .commit();
+    }
+  }
+  async #releaseLock(path: string[]): Promise<void> {
+    const key = ["deno_kv_fs", "locks", ...path];
+    const current = await this.#kv!.get(key);
+    if ((current.value as FileLock | null)?.owner == this.#instanceId) {
+      await this.#kv!.atomic().check(current).delete(key).commit();
+    }
+  }
+  async #setClientLease(clientId: string | number): Promise<void> {
+    const key = ["deno_kv_fs", "clients", clientId, this.#instanceId];
+    if (this.#clientsReqsMap[clientId]) {
+      await this.#kv!.set(key, {
+        count: this.#clientsReqsMap[clientId],
+        expiresAt: Date.now() + this.#leaseMillis,
+      }, { expireIn: this.#leaseMillis });
+    } else {
+      await this.#kv!.delete(key);
+    }
+  }
+  #startHeartbeat(): void {
+    if (this.#heartbeat === undefined) {
+      const heartbeat = setInterval(
+        () => this.#renewLeases(),
+        this.#leaseMillis / 3,
+      );
+      Deno.unrefTimer(heartbeat); //it must not keep the process alive
+      this.#heartbeat = heartbeat;
+    }
+  }
+  //Heartbeat: keeps the leases of this instance alive and publishes its progress.
+  async #renewLeases(): Promise<void> {
+    const saving = Object.keys(this.#savingFiles);
+    const deleting = Object.keys(this.#deletingFiles);
+    const clients = Object.keys(this.#clientsReqsMap);
+    if (
+      saving.length + deleting.length + clients.length + this.#readers.size == 0
+    ) {
+      clearInterval(this.#heartbeat);
+      this.#heartbeat = undefined;
+      return;
+    }
+    //a failed renewal is retried by the next beat
+    const report = (path: string[], e: Error) =>
+      this.#errorStatus(
+        path,
+        `The lease could not be renewed (${e.message || String(e)}).`,
+      );
+    for (const URIComponent of saving) {
+      const path = this.URIComponentToPath(URIComponent);
+      await this.#renewLock(path, this.#savingFiles[URIComponent])
+        .catch((e) => report(path, e));
+    }
+    for (const URIComponent of deleting) {
+      const path = this.URIComponentToPath(URIComponent);
+      await this.#renewLock(path, this.#deletingFiles[URIComponent])
+        .catch((e) => report(path, e));
+    }
+    for (const clientId of clients) {
+      await this.#setClientLease(clientId).catch((e) => report([], e));
+    }
+    for (const readerKey of this.#readers) {
+      await this.#renewReader(readerKey).catch((e) =>
+        report(this.URIComponentToPath(readerKey[2] as string), e)
+      );
+    }
   }
-  _incrementClientIdReq(clientId: any): void {
+  async _incrementClientIdReq(
+    clientId: string | number | undefined,
+  ): Promise<void> {
     if (clientId) {
       if (!this.#clientsReqsMap[clientId]) {
         this.#clientsReqsMap[clientId] = 0;
       }
       this.#clientsReqsMap[clientId]++;
+      await this.#initKv();
+      await this.#setClientLease(clientId);
+      this.#startHeartbeat();
     }
   }
-  _decrementClientIdReq(clientId: any): void {
+  async _decrementClientIdReq(
+    clientId: string | number | undefined,
+  ): Promise<void> {
     if (clientId) {
       if (this.#clientsReqsMap[clientId]) {
         this.#clientsReqsMap[clientId]--;
         if (this.#clientsReqsMap[clientId] < 1) {
           delete this.#clientsReqsMap[clientId];
         }
+        await this.#setClientLease(clientId);
       }
     }
   }
-  async #startSaving(params: SaveOptions): Promise<void> {
-    this._incrementClientIdReq(params.clientId);
+  async #startSaving(
+    params: SaveOptions,
+    version: string,
+    tier?: string, //where the chunks of the version are written
+  ): Promise<FileStatus | undefined> {
+    const lockStatus = await this.#acquireLock(
+      params.path,
+      "saving",
+      params.clientId,
+    );
+    if (lockStatus) {
+      return lockStatus;
+    }
+    await this._incrementClientIdReq(params.clientId);
     const URIComponent = this.pathToURIComponent(params.path);
     this.#savingFiles[URIComponent] = 0;
+    this.#progressInfo[URIComponent] = {
+      startedAt: Date.now(),
+      clientId: params.clientId,
+      //the stored bytes are counted, which differ from the content when compressed
+      totalBytes: params.content instanceof Uint8Array && !params.compression
+        ? params.content.length
+        : undefined,
+    };
+    await this.#markUnresolved(params, version, tier);
+  }
+  //Until it is committed, the version is discarded by the instances that
+  //start (when the saving one stopped).
+  async #markUnresolved(
+    params: SaveOptions,
+    version: string,
+    tier?: string,
+  ): Promise<void> {
     await this.#kv!.set(
-      ["deno_kv_fs", "unresolved", URIComponent],
-      { ...params, ...{ content: undefined, validateAccess: undefined } },
+      [
+        "deno_kv_fs",
+        "unresolved",
+        this.pathToURIComponent(params.path),
+        version,
+      ],
+      {
+        ...params,
+        ...{
+          content: undefined,
+          validateAccess: undefined,
+          version: version,
+          tier: tier,
+        },
+      },
     );
   }
   async #endSaving(
     params: SaveOptions,
+    version: string,
     resolved: boolean = true,
   ): Promise<void> {
     const URIComponent = this.pathToURIComponent(params.path);
     if (resolved) {
       await this.#kv!.delete(
-        ["deno_kv_fs", "unresolved", URIComponent],
+        ["deno_kv_fs", "unresolved", URIComponent, version],
       );
     }
     delete this.#savingFiles[URIComponent];
-    this._decrementClientIdReq(params.clientId);
+    delete this.#progressInfo[URIComponent];
+    await this.#releaseLock(params.path);
+    await this._decrementClientIdReq(params.clientId);
   }
-  async #startDeleting(params: ReadOptions): Promise<void> {
-    this._incrementClientIdReq(params.clientId);
+  async #startDeleting(
+    params: ReadOptions,
+    unresolved: boolean = true, //false when the file is not deleted if interrupted
+  ): Promise<FileStatus | undefined> {
+    const lockStatus = await this.#acquireLock(
+      params.path,
+      "deleting",
+      params.clientId,
+    );
+    if (lockStatus) {
+      return lockStatus;
+    }
+    await this._incrementClientIdReq(params.clientId);
     const URIComponent = this.pathToURIComponent(params.path);
     this.#deletingFiles[URIComponent] = 0;
-    await this.#kv!.set(
-      ["deno_kv_fs", "unresolved", URIComponent],
-      { ...params, ...{ content: undefined, validateAccess: undefined } },
-    );
+    this.#progressInfo[URIComponent] = {
+      startedAt: Date.now(),
+      clientId: params.clientId,
+    };
+    if (unresolved) {
+      await this.#kv!.set(
+        ["deno_kv_fs", "unresolved", URIComponent],
+        { ...params, ...{ content: undefined, validateAccess: undefined } },
+      );
+    }
   }
   async #endDeleting(
     params: ReadOptions,
@@ -629,113 +4756,450 @@ class DenoKvFs {
       );
     }
     delete this.#deletingFiles[URIComponent];
-    this._decrementClientIdReq(params.clientId);
+    delete this.#progressInfo[URIComponent];
+    await this.#releaseLock(params.path);
+    await this._decrementClientIdReq(params.clientId);
   }
-  async #retract(params: SaveOptions, nextChunkIndex: number): Promise<void> {
+  async #deleteChunks(
+    params: ReadOptions,
+    version: string | undefined,
+    reportProgress: boolean,
+    tier?: string,
+  ): Promise<void> {
     const uri = this.pathToURIComponent(params.path);
-    const listParams: any = [
-      {
-        start: ["deno_kv_fs", "chunks", uri, nextChunkIndex],
-        end: ["deno_kv_fs", "chunks", uri, Number.MAX_SAFE_INTEGER],
-      },
+    const store = this.#chunkStore(tier);
+    const listParams = [
+      this.#chunksRange(uri, version),
       {
         limit: this.#maxPageSize,
       },
     ];
     let time = Date.now();
     let chunksCount = 0;
-    let totalBytes = 0;
     for await (
-      const value of DenoKvFs.pagedListIterator(listParams, this.#kv!)
+      const value of DenoKvFs.pagedListIterator(listParams, store)
     ) {
-      await this.#kv!.delete(value.key);
-      totalBytes += (value.value as Uint8Array).length;
+      const deletedBytes = await this.#deleteChunk(value, store);
+      if (reportProgress) {
+        this.#deletingFiles[uri] += deletedBytes;
+      }
       if ((Date.now() - time) < this.#oneSecondDelayMillis) {
         chunksCount++;
         if (chunksCount > params.chunksPerSecond!) {
           await delay(this.#oneSecondDelayMillis);
-          const status = this.#fileStatus(uri)!;
-          status["msg"] =
-            `Deleting previous data, ${totalBytes} bytes deleted.`;
-          this.onFileProgress(status);
+          if (reportProgress) {
+            this.onFileProgress(this.#fileStatus(uri)!);
+          }
           chunksCount = 0;
           time = Date.now();
         }
       } else {
         chunksCount = 0;
         time = Date.now();
-        const status = this.#fileStatus(uri)!;
-        status["msg"] = `Deleting previous data, ${totalBytes} bytes deleted.`;
-        this.onFileProgress(status);
+        if (reportProgress) {
+          this.onFileProgress(this.#fileStatus(uri)!);
+        }
       }
     }
+    const checksums = store.list(
+      this.#chunksRange(uri, version, 1, Number.MAX_SAFE_INTEGER, "checksums"),
+    );
+    for await (const c of checksums) {
+      await store.delete(c.key);
+    }
+    if (reportProgress) {
+      this.onFileProgress(this.#fileStatus(uri)!);
+    }
   }
-  async #deleteChunks(params: ReadOptions): Promise<void> {
-    const uri = this.pathToURIComponent(params.path);
-    const listParams: any = [
-      {
-        prefix: ["deno_kv_fs", "chunks", uri],
-      },
-      {
-        limit: this.#maxPageSize,
-      },
-    ];
-    let time = Date.now();
-    let chunksCount = 0;
-    for await (
-      const value of DenoKvFs.pagedListIterator(listParams, this.#kv!)
-    ) {
-      await this.#kv!.delete(value.key);
-      this.#deletingFiles[uri] += (value.value as Uint8Array).length;
-      if ((Date.now() - time) < this.#oneSecondDelayMillis) {
-        chunksCount++;
-        if (chunksCount > params.chunksPerSecond!) {
-          await delay(this.#oneSecondDelayMillis);
-          this.onFileProgress(this.#fileStatus(uri)!);
-          chunksCount = 0;
-          time = Date.now();
+  async #hash(data: Uint8Array): Promise<string> {
+    return Array.from(
+      new Uint8Array(
+        await crypto.subtle.digest("SHA-256", data as BufferSource),
+      ),
+      (b) => b.toString(16).padStart(2, "0"),
+    ).join("");
+  }
+  //Deduplicated chunks are stored once in ["deno_kv_fs", "blobs", hash] and
+  //the chunk keys of the files hold only their hashes. The hashes are not
+  //listed in the File record, its value would exceed the 64 KiB limit of the
+  //KV with large files (e.g. 160,000 hashes for 10 GiB).
+  async #setChunk(
+    key: Deno.KvKey,
+    chunk: Uint8Array,
+    deduplicate: boolean = false,
+    checksum: boolean = false,
+    store: StorageBackend = this.#kv!, //deduplicated chunks are only in the primary KV
+  ): Promise<void> {
+    const checksumKey = ["deno_kv_fs", "checksums", ...key.slice(2)];
+    //the hash of a deduplicated chunk is already its checksum
+    const hash = deduplicate || checksum ? await this.#hash(chunk) : "";
+    if (store != this.#kv) {
+      const op = store.atomic().set(key, chunk);
+      if (checksum) {
+        op.set(checksumKey, hash);
+      }
+      await op.commit();
+      return;
+    }
+    while (true) {
+      //a rewritten chunk (e.g. the last one of an upload) releases its blob
+      const current = await store.get(key);
+      if (deduplicate && current.value === hash) {
+        return;
+      }
+      const op = store.atomic().check(current);
+      if (typeof current.value == "string") {
+        await this.#releaseRef(op, current.value);
+      }
+      if (!deduplicate) {
+        op.set(key, chunk);
+        if (checksum) {
+          op.set(checksumKey, hash);
         }
       } else {
-        chunksCount = 0;
-        time = Date.now();
-        this.onFileProgress(this.#fileStatus(uri)!);
+        const refsKey = ["deno_kv_fs", "chunk_refs", hash];
+        const refs = await this.#kv!.get(refsKey);
+        const count = (refs.value as ChunkRefs | null)?.count || 0;
+        op.check(refs)
+          .set(refsKey, { count: count + 1, size: chunk.length })
+          .set(key, hash);
+        if (count == 0) {
+          op.set(["deno_kv_fs", "blobs", hash], chunk);
+        }
+      }
+      if ((await op.commit()).ok) {
+        return;
+      }
+    }
+  }
+  //Adds to the operation the release of a reference to a deduplicated chunk.
+  async #releaseRef(
+    op: StorageAtomicOperation,
+    hash: string,
+  ): Promise<void> {
+    const refsKey = ["deno_kv_fs", "chunk_refs", hash];
+    const refs = await this.#kv!.get(refsKey);
+    const chunkRefs = refs.value as ChunkRefs | null;
+    op.check(refs);
+    if (!chunkRefs || chunkRefs.count <= 1) {
+      op.delete(refsKey).delete(["deno_kv_fs", "blobs", hash]);
+    } else {
+      op.set(refsKey, { ...chunkRefs, count: chunkRefs.count - 1 });
+    }
+  }
+  async #chunkData(entry: Deno.KvEntry<unknown>): Promise<Uint8Array> {
+    const chunk = typeof entry.value == "string"
+      ? (await this.#kv!.get(["deno_kv_fs", "blobs", entry.value]))
+        .value as Uint8Array | null
+      : entry.value as Uint8Array;
+    if (!chunk) {
+      throw new Error(`Missing data of chunk ${entry.key.slice(2).join("/")}.`);
+    }
+    return chunk;
+  }
+  async #verifyChunk(
+    entry: Deno.KvEntry<unknown>,
+    chunk: Uint8Array,
+    fileData: File,
+  ): Promise<void> {
+    let checksum: string | null = null;
+    if (typeof entry.value == "string") {
+      checksum = entry.value;
+    } else if (fileData.chunkChecksums) {
+      checksum = (await this.#chunkStore(fileData.tier).get(
+        ["deno_kv_fs", "checksums", ...entry.key.slice(2)],
+      )).value as string | null;
+    }
+    if (checksum !== null && checksum != await this.#hash(chunk)) {
+      throw new Error(`Corrupted chunk ${entry.key.slice(2).join("/")}.`);
+    }
+  }
+  //Reads the whole content, it errors if any verification fails.
+  async #checksumOf(fileData: File, options: ReadOptions): Promise<string> {
+    const hasher = new Sha256();
+    const file: File = { ...fileData };
+    this.#contentData(file, options);
+    const reader = file.content!.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        hasher.update(value);
+      }
+      if (done) {
+        return hasher.hex();
+      }
+    }
+  }
+  //Returns the number of bytes the chunk had. A deduplicated chunk is only
+  //removed when no other file references it.
+  async #deleteChunk(
+    entry: Deno.KvEntry<unknown>,
+    store: StorageBackend = this.#kv!,
+  ): Promise<number> {
+    if (typeof entry.value != "string") {
+      await store.delete(entry.key);
+      return (entry.value as Uint8Array).length;
+    }
+    const refsKey = ["deno_kv_fs", "chunk_refs", entry.value];
+    let current: Deno.KvEntryMaybe<unknown> = entry;
+    while (current.value) {
+      const refs = await this.#kv!.get(refsKey);
+      const chunkRefs = refs.value as ChunkRefs | null;
+      const op = this.#kv!.atomic()
+        .check(current) //it was not released concurrently
+        .check(refs)
+        .delete(entry.key);
+      if (!chunkRefs || chunkRefs.count <= 1) {
+        op.delete(refsKey).delete(["deno_kv_fs", "blobs", entry.value]);
+      } else {
+        op.set(refsKey, { ...chunkRefs, count: chunkRefs.count - 1 });
       }
+      if ((await op.commit()).ok) {
+        return chunkRefs?.size || 0;
+      }
+      current = await this.#kv!.get(entry.key);
+    }
+    return 0;
+  }
+  #plainChunkSize(encrypted: boolean): number {
+    //encrypted chunks must still fit in a KV value
+    return this.#chunkSize - (encrypted ? this.#encryptionOverhead : 0);
+  }
+  async #encryptionKey(
+    path: string[],
+    keyId?: string,
+  ): Promise<EncryptionKey | undefined> {
+    const key = this.keyProvider
+      ? await this.keyProvider(path, keyId)
+      : undefined;
+    if (keyId !== undefined && key?.id !== keyId) {
+      throw new Error(`Encryption key not found (${keyId}).`);
     }
-    this.onFileProgress(this.#fileStatus(uri)!);
+    return key;
+  }
+  //The key of the chunk (URIComponent, version and index) is authenticated,
+  //so chunks cannot be reordered nor moved to other files or versions.
+  async #encryptChunk(
+    chunk: Uint8Array,
+    key: EncryptionKey,
+    chunkKey: Deno.KvKey,
+  ): Promise<Uint8Array> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = new Uint8Array(
+      await crypto.subtle.encrypt(
+        {
+          name: "AES-GCM",
+          iv: iv,
+          additionalData: this.#enc.encode(JSON.stringify(chunkKey.slice(2))),
+        },
+        key.key,
+        chunk as BufferSource,
+      ),
+    );
+    const res = new Uint8Array(iv.length + encrypted.length);
+    res.set(iv);
+    res.set(encrypted, iv.length);
+    return res;
+  }
+  async #decryptChunk(
+    chunk: Uint8Array,
+    key: EncryptionKey,
+    chunkKey: Deno.KvKey,
+  ): Promise<Uint8Array> {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: chunk.subarray(0, 12) as BufferSource,
+          additionalData: this.#enc.encode(JSON.stringify(chunkKey.slice(2))),
+        },
+        key.key,
+        chunk.subarray(12) as BufferSource,
+      ),
+    );
   }
+  //readerKey is a lease already taken by the caller, otherwise the stream
+  //takes one when it starts to be consumed.
   #contentData(
     fileData: File,
     options: ReadOptions,
+    readerKey?: Deno.KvKey,
   ): void {
     fileData["URIComponent"] = this.pathToURIComponent(options.path);
-    fileData.content = this.#contentToStream(
-      fileData["URIComponent"],
-      options,
+    if (fileData.compression && options.decompress !== false) {
+      fileData.content = this.#decompressedStream(
+        fileData,
+        options,
+        readerKey,
+      );
+    } else {
+      fileData.content = this.#contentToStream(
+        fileData,
+        options,
+        readerKey,
+      );
+    }
+  }
+  #compressStream(
+    params: SaveOptions,
+    original: { size: number; hasher: Sha256; incomplete: boolean },
+  ): ReadableStream<Uint8Array> {
+    let content = params.content as ReadableStream<Uint8Array> | Uint8Array;
+    if (content instanceof Uint8Array) {
+      const data = content;
+      content = new ReadableStream({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      });
+    }
+    //the size and the checksum are of the original content
+    const counter = new TransformStream<Uint8Array, BufferSource>({
+      transform(chunk, controller) {
+        if (original.size + chunk.length > params.maxFileSizeBytes!) {
+          original.incomplete = true;
+          controller.terminate();
+          return;
+        }
+        original.hasher.update(chunk);
+        original.size += chunk.length;
+        controller.enqueue(chunk as BufferSource);
+      },
+    });
+    return content
+      .pipeThrough(counter)
+      .pipeThrough(new CompressionStream(params.compression!));
+  }
+  //Ranges and checksums of compressed files refer to the original content,
+  //so the stored content is decompressed from its start and then sliced (up
+  //to the end of the range, or entirely when verifying).
+  #decompressedStream(
+    fileData: File,
+    options: ReadOptions,
+    readerKey?: Deno.KvKey,
+  ): ReadableStream<Uint8Array> {
+    const stored = this.#contentToStream(fileData, {
+      ...options,
+      ...{ start: undefined, end: undefined },
+    }, readerKey);
+    const start = Math.max(0, options.start || 0);
+    const end = Math.min(
+      fileData.size - 1,
+      options.end === undefined ? Number.MAX_SAFE_INTEGER : options.end,
+    );
+    const hasher = new Sha256();
+    let offset = 0;
+    const slicer = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        if (options.verify) {
+          hasher.update(chunk);
+        }
+        const from = Math.max(start - offset, 0);
+        const to = Math.min(end - offset + 1, chunk.length);
+        if (to > from) {
+          controller.enqueue(chunk.subarray(from, to));
+        }
+        offset += chunk.length;
+        if (!options.verify && offset > end) {
+          controller.terminate(); //the rest of the content is not needed
+        }
+      },
+      flush(controller) {
+        if (
+          options.verify && (offset != fileData.size ||
+            (fileData.checksum && hasher.hex() != fileData.checksum))
+        ) {
+          controller.error(
+            new Error(`Checksum mismatch of ${fileData.URIComponent}.`),
+          );
+        }
+      },
+    });
+    return this.#createByteStream(
+      (stored as ReadableStream)
+        .pipeThrough(new DecompressionStream(fileData.compression!))
+        .pipeThrough(slicer)
+        .getReader(),
     );
   }
   #contentToStream(
-    URIComponent: string,
+    fileData: File,
     options: ReadOptions,
+    readerKey?: Deno.KvKey,
   ): ReadableStream<Uint8Array> {
-    const listParams = [{
-      prefix: ["deno_kv_fs", "chunks", URIComponent],
-    }, {
-      limit: this.#maxPageSize,
-    }];
-    const entries = DenoKvFs.pagedListIterator(listParams, this.#kv!);
+    const URIComponent = fileData.URIComponent!;
+    const size = fileData.storedSize ?? fileData.size;
+    const start = Math.max(0, options.start || 0);
+    const end = Math.min(
+      size - 1,
+      options.end === undefined ? Number.MAX_SAFE_INTEGER : options.end,
+    );
+    //chunks are 1-indexed and all of them, except the last one, are full
+    const chunkSize = this.#plainChunkSize(fileData.keyId !== undefined);
+    const firstChunk = Math.floor(start / chunkSize) + 1;
+    const lastChunk = Math.floor(end / chunkSize) + 1;
+    let encryptionKey: EncryptionKey | undefined;
+    const listParams = [
+      this.#chunksRange(
+        URIComponent,
+        fileData.version,
+        firstChunk,
+        lastChunk + 1,
+      ),
+      {
+        limit: this.#maxPageSize,
+      },
+    ];
+    let entries: AsyncGenerator<Deno.KvEntry<unknown>>;
+    //while the stream is consumed, a lease keeps its version from being collected
+    const leased = readerKey !== undefined;
+    const lease = readerKey ?? this.#readerKey(URIComponent, fileData.version);
+    //the checksum of compressed files is verified after decompressing
+    const wholeFile = start == 0 && end == size - 1 && !fileData.compression;
+    const hasher = new Sha256();
+    let expectedChunk = firstChunk;
+    let totalBytes = 0;
     let time = Date.now();
     let chunksCount = 0;
-    const kvFs: DenoKvFs = this;
     let started = false;
+    let counted = false;
+    let finished = false;
+    const finish = async () => {
+      if ((started || leased) && !finished) {
+        finished = true;
+        if (counted) {
+          await this._decrementClientIdReq(options.clientId);
+        }
+        await this.#releaseReader(lease);
+      }
+    };
     return new ReadableStream({
       type: "bytes",
-      async pull(controller) {
+      pull: async (controller) => {
         try {
           if (!started) {
             started = true;
-            kvFs._incrementClientIdReq(options.clientId);
+            if (!leased && !(await this.#acquireReader(lease))) {
+              throw new Error(
+                `The version ${fileData.version} of ${URIComponent} was replaced.`,
+              );
+            }
+            await this.#holdReader(lease);
+            entries = DenoKvFs.pagedListIterator(
+              listParams,
+              this.#chunkStore(fileData.tier),
+            );
+            if (fileData.keyId !== undefined) {
+              encryptionKey = await this.#encryptionKey(
+                fileData.path,
+                fileData.keyId,
+              );
+            }
+            await this._incrementClientIdReq(options.clientId);
+            counted = true;
             if (
-              kvFs.getClientReqs(options.clientId!) >
+              (await this.countClientReqs(options.clientId!)) >
                 options.maxClientIdConcurrentReqs!
             ) {
               throw new Error(
@@ -744,21 +5208,69 @@ class DenoKvFs {
               );
             }
           }
-          const { value, done } = await entries.next();
+          const { value, done } = (end < start)
+            ? { value: undefined, done: true }
+            : await entries.next();
           if (value) {
-            controller.enqueue(value.value as Uint8Array);
+            const chunkIndex = value.key[value.key.length - 1] as number;
+            const chunkOffset = (chunkIndex - 1) * chunkSize;
+            let chunk = await this.#chunkData(value);
+            //a version collected under an expired lease errors, instead of
+            //being truncated
+            if (chunkIndex != expectedChunk) {
+              throw new Error(
+                `Missing chunk ${expectedChunk} of ${URIComponent}.`,
+              );
+            }
+            expectedChunk++;
+            if (options.verify) {
+              await this.#verifyChunk(value, chunk, fileData);
+            }
+            if (encryptionKey) {
+              chunk = await this.#decryptChunk(
+                chunk,
+                encryptionKey,
+                value.key,
+              );
+            }
+            if (chunkIndex == lastChunk) {
+              chunk = chunk.subarray(0, end - chunkOffset + 1);
+            }
+            if (chunkIndex == firstChunk) {
+              chunk = chunk.subarray(start - chunkOffset);
+            }
+            if (options.verify) {
+              hasher.update(chunk);
+            }
+            totalBytes += chunk.length;
+            if (chunk.length > 0) {
+              controller.enqueue(chunk);
+            }
           }
           if (done) {
-            kvFs._decrementClientIdReq(options.clientId);
+            if (totalBytes != Math.max(0, end - start + 1)) {
+              throw new Error(
+                `Truncated content of ${URIComponent}, ${totalBytes} of ${
+                  Math.max(0, end - start + 1)
+                } bytes found.`,
+              );
+            }
+            if (
+              options.verify && wholeFile && fileData.checksum &&
+              hasher.hex() != fileData.checksum
+            ) {
+              throw new Error(`Checksum mismatch of ${URIComponent}.`);
+            }
+            await finish();
             controller.close();
             if (controller.byobRequest) {
               controller.byobRequest.respond(0);
             }
           }
-          if ((Date.now() - time) < kvFs.#oneSecondDelayMillis) {
+          if ((Date.now() - time) < this.#oneSecondDelayMillis) {
             chunksCount++;
             if (chunksCount > options.chunksPerSecond!) {
-              await delay(kvFs.#oneSecondDelayMillis);
+              await delay(this.#oneSecondDelayMillis);
               chunksCount = 0;
               time = Date.now();
             }
@@ -767,16 +5279,20 @@ class DenoKvFs {
             time = Date.now();
           }
         } catch (e) {
-          kvFs._decrementClientIdReq(options.clientId);
+          await finish();
           controller.error(e);
         }
       },
+      cancel: async () => {
+        await finish();
+      },
     });
   }
   async #getChunkIter(
     reader: ReadableStreamBYOBReader,
+    chunkSize: number,
   ): Promise<[Uint8Array, boolean]> {
-    let chunkBuffer = new ArrayBuffer(this.#chunkSize);
+    let chunkBuffer = new ArrayBuffer(chunkSize);
     let offset = 0;
     let finished = false;
     while (offset < chunkBuffer.byteLength) {
@@ -792,8 +5308,8 @@ class DenoKvFs {
         break;
       }
     }
-    if (offset < this.#chunkSize) {
-      chunkBuffer = chunkBuffer.slice(0, -(this.#chunkSize - offset));
+    if (offset < chunkSize) {
+      chunkBuffer = chunkBuffer.slice(0, -(chunkSize - offset));
     }
     return [new Uint8Array(chunkBuffer), finished];
   }
@@ -823,6 +5339,9 @@ class DenoKvFs {
   async #saveFromReader(
     URIComponent: string,
     params: SaveOptions,
+    version: string,
+    firstChunk: number = 1,
+    encryptionKey?: EncryptionKey,
   ): Promise<SaveResult> {
     let sizeBytes = 0;
     let reader: ReadableStreamReader<any>;
@@ -839,23 +5358,39 @@ class DenoKvFs {
       });
     }
 
-    let totalCount = 0;
+    let totalCount = firstChunk - 1;
     let time = Date.now();
     let chunkIter = [new Uint8Array(), false] as [Uint8Array, boolean];
     let chunksCount = 0;
     const flags: string[] = [];
+    const hasher = new Sha256();
     while (!chunkIter[1]) {
-      chunkIter = await this.#getChunkIter(reader);
+      chunkIter = await this.#getChunkIter(
+        reader,
+        this.#plainChunkSize(encryptionKey !== undefined),
+      );
       const chunk = chunkIter[0];
       if (sizeBytes > params.maxFileSizeBytes!) {
         flags.push("incomplete");
         break;
       }
       totalCount++;
-      await this.#kv!.set(
-        ["deno_kv_fs", "chunks", URIComponent, totalCount],
-        chunk,
+      const chunkKey = [
+        "deno_kv_fs",
+        "chunks",
+        URIComponent,
+        version,
+        totalCount,
+      ];
+      await this.#setChunk(
+        chunkKey,
+        encryptionKey
+          ? await this.#encryptChunk(chunk, encryptionKey, chunkKey)
+          : chunk,
+        params.deduplicate,
+        params.chunkChecksums,
       );
+      hasher.update(chunk);
       sizeBytes += chunk.length;
       this.#savingFiles[URIComponent] = sizeBytes;
       if ((Date.now() - time) < this.#oneSecondDelayMillis) {
@@ -872,7 +5407,6 @@ class DenoKvFs {
         this.onFileProgress(this.#fileStatus(URIComponent)!);
       }
     }
-    await this.#retract(params, totalCount + 1);
     if (flags.includes("incomplete")) {
       this.onFileProgress(
         <FileStatus> {
@@ -889,28 +5423,52 @@ class DenoKvFs {
     return {
       flags: flags,
       size: sizeBytes,
+      checksum: hasher.hex(),
+      chunkChecksums: !!params.chunkChecksums,
+      ...(encryptionKey
+        ? { encryption: "AES-GCM", keyId: encryptionKey.id }
+        : {}),
     };
   }
   async #saveFromUint8Array(
     URIComponent: string,
     params: SaveOptions,
+    version: string,
+    firstChunk: number = 1,
+    encryptionKey?: EncryptionKey,
   ): Promise<SaveResult> {
-    const chunks = this.#toChunks(params.content as Uint8Array);
+    const chunks = this.#toChunks(
+      params.content as Uint8Array,
+      this.#plainChunkSize(encryptionKey !== undefined),
+    );
     let sizeBytes = 0;
-    let totalCount = 0;
+    let totalCount = firstChunk - 1;
     let time = Date.now();
     let chunksCount = 0;
-    let flags: any = [];
+    const flags: string[] = [];
+    const hasher = new Sha256();
     for (const chunk of chunks) {
       if (sizeBytes > params.maxFileSizeBytes!) {
         flags.push("incomplete");
         break;
       }
       totalCount++;
-      await this.#kv!.set(
-        ["deno_kv_fs", "chunks", URIComponent, totalCount],
-        chunk,
+      const chunkKey = [
+        "deno_kv_fs",
+        "chunks",
+        URIComponent,
+        version,
+        totalCount,
+      ];
+      await this.#setChunk(
+        chunkKey,
+        encryptionKey
+          ? await this.#encryptChunk(chunk, encryptionKey, chunkKey)
+          : chunk,
+        params.deduplicate,
+        params.chunkChecksums,
       );
+      hasher.update(chunk);
       sizeBytes += chunk.length;
       this.#savingFiles[URIComponent] = sizeBytes;
       if ((Date.now() - time) < this.#oneSecondDelayMillis) {
@@ -927,7 +5485,6 @@ class DenoKvFs {
         this.onFileProgress(this.#fileStatus(URIComponent)!);
       }
     }
-    await this.#retract(params, totalCount + 1);
     if (flags.includes("incomplete")) {
       this.onFileProgress(
         <FileStatus> {
@@ -944,15 +5501,63 @@ class DenoKvFs {
     return {
       flags: flags,
       size: sizeBytes,
+      checksum: hasher.hex(),
+      chunkChecksums: !!params.chunkChecksums,
+      ...(encryptionKey
+        ? { encryption: "AES-GCM", keyId: encryptionKey.id }
+        : {}),
     };
   }
 }
 
 export {
+  type ChangeEvent,
+  type DeduplicationStats,
   DenoKvFs,
+  type Dir,
   type DirList,
+  type EncryptionKey,
+  type ExportOptions,
   type File,
   type FileStatus,
+  type FinishUploadOptions,
+  type ImportOptions,
+  type IndexValue,
+  type KeyProvider,
+  type MoveOptions,
+  type QueryOptions,
+  type Quota,
   type ReadOptions,
   type SaveOptions,
+  type Stat,
+  type TieringRule,
+  type TrashItem,
+  type Upload,
+  type UploadChunkOptions,
+  type UploadOptions,
+  type UploadPart,
+  type UploadPartOptions,
+  type Usage,
+  type VersionPolicy,
 };
+export { createHttpHandler, type HttpHandlerOptions } from "./http.ts";
+export { createWebDavHandler } from "./webdav.ts";
+export { createS3Handler } from "./s3.ts";
+export {
+  type SignedAccess,
+  type SignedOperation,
+  type SignOptions,
+  UrlSigner,
+} from "./signing.ts";
+export {
+  type ProgressFilter,
+  ProgressHub,
+  type ProgressListener,
+} from "./progress.ts";
+export {
+  FsBackend,
+  MemoryBackend,
+  type StorageAtomicOperation,
+  type StorageBackend,
+  type StorageListIterator,
+} from "./backends.ts";
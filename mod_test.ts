@@ -0,0 +1,953 @@
+import {
+  DenoKvFs,
+  type File,
+  type FileStatus,
+  MemoryBackend,
+  type QueryOptions,
+} from "./mod.ts";
+import { archiveWriter } from "./archive.ts";
+import { assert, assertEquals, assertRejects } from "./dev_deps.ts";
+
+function setup(): { fs: DenoKvFs; kv: MemoryBackend } & AsyncDisposable {
+  const kv = new MemoryBackend();
+  const fs = new DenoKvFs(kv);
+  return {
+    fs: fs,
+    kv: kv,
+    async [Symbol.asyncDispose]() {
+      await fs.close();
+      kv.close();
+    },
+  };
+}
+
+//lets the concurrent operations (such as the garbage collection) run
+function settle(millis: number = 100): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, millis));
+}
+
+async function count(kv: MemoryBackend, prefix: Deno.KvKey): Promise<number> {
+  let n = 0;
+  for await (const _ of kv.list({ prefix: prefix })) {
+    n++;
+  }
+  return n;
+}
+
+async function bytes(file: File | FileStatus | null): Promise<Uint8Array> {
+  assert(file && !("status" in file), "a file was expected");
+  return new Uint8Array(await new Response(file.content).arrayBuffer());
+}
+
+Deno.test("read keeps its version until the stream is consumed", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  const old = new Uint8Array(200 * 1024).fill(1);
+  await fs.save({ path: ["f.bin"], content: old });
+  const file = await fs.read({ path: ["f.bin"] });
+  await fs.save({ path: ["f.bin"], content: "new" });
+  await settle();
+  assertEquals(await bytes(file), old);
+  await settle();
+  assertEquals(await count(kv, ["deno_kv_fs", "garbage"]), 0);
+  assertEquals(
+    await bytes(await fs.read({ path: ["f.bin"] })),
+    new TextEncoder().encode("new"),
+  );
+});
+
+Deno.test("a version being collected grants no new reader leases", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  fs.versionPolicy = () => ({ maxVersions: 5 });
+  await fs.save({ path: ["f.txt"], content: "one" });
+  const first = await fs.read({ path: ["f.txt"] }) as File;
+  await first.content!.cancel();
+  await fs.save({ path: ["f.txt"], content: "two" });
+  const uri = fs.pathToURIComponent(["f.txt"]);
+  assertEquals(
+    new TextDecoder().decode(
+      await bytes(await fs.read({ path: ["f.txt"], version: first.version })),
+    ),
+    "one",
+  );
+  await kv.set(["deno_kv_fs", "version_readers", uri, first.version!], {
+    collecting: true,
+  });
+  assertEquals(
+    await fs.read({ path: ["f.txt"], version: first.version }),
+    null,
+  );
+});
+
+Deno.test("a save whose lock was taken over does not commit", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  await fs.save({ path: ["f.txt"], content: "old" });
+  let resume = () => {};
+  const paused = new Promise<void>((resolve) => resume = resolve);
+  const content = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(new TextEncoder().encode("new"));
+      await paused;
+      controller.close();
+    },
+  });
+  const saving = fs.save({ path: ["f.txt"], content: content });
+  await settle();
+  assertEquals(fs.getAllFilesStatuses().map((s) => s.status), ["saving"]);
+  //as if the lease had expired and another instance had taken the lock
+  const lockKey = ["deno_kv_fs", "locks", "f.txt"];
+  const lock = (await kv.get(lockKey)).value as Record<string, unknown>;
+  await kv.set(lockKey, { ...lock, owner: "another-instance" });
+  resume();
+  const res = await saving;
+  assert("status" in res && res.status == "error");
+  await kv.delete(lockKey);
+  assertEquals(
+    new TextDecoder().decode(await bytes(await fs.read({ path: ["f.txt"] }))),
+    "old",
+  );
+});
+
+Deno.test("getClientReqs counts the requests of this instance", async () => {
+  await using env = setup();
+  const { fs } = env;
+  await fs.save({ path: ["f.txt"], content: "data", clientId: "c" });
+  const file = await fs.read({ path: ["f.txt"], clientId: "c" }) as File;
+  const reader = file.content!.getReader();
+  await reader.read();
+  assertEquals(fs.getClientReqs("c"), 1);
+  assertEquals(await fs.countClientReqs("c"), 1);
+  await reader.cancel();
+  assertEquals(fs.getClientReqs("c"), 0);
+});
+
+Deno.test("a failed append can be retried at the same offset", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const upload = await fs.createUpload({ path: ["up.bin"] });
+  assert(!("status" in upload));
+  const first = new Uint8Array(100).fill(1);
+  await fs.appendUpload({ id: upload.id, offset: 0, content: first });
+  let sent = 0;
+  const failing = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent++ < 3) {
+        controller.enqueue(new Uint8Array(64 * 1024).fill(2));
+      } else {
+        controller.error(new Error("connection lost"));
+      }
+    },
+  });
+  const failed = await fs.appendUpload({
+    id: upload.id,
+    offset: 100,
+    content: failing,
+  });
+  assert("status" in failed && failed.status == "error");
+  const retry = new Uint8Array(50).fill(3);
+  const appended = await fs.appendUpload({
+    id: upload.id,
+    offset: 100,
+    content: retry,
+  });
+  assert(!("status" in appended) && appended.offset == 150);
+  const file = await fs.finishUpload(upload.id);
+  assert(!("status" in file));
+  assertEquals(file.size, 150);
+  const expected = new Uint8Array(150);
+  expected.set(first);
+  expected.set(retry, 100);
+  assertEquals(await bytes(await fs.read({ path: ["up.bin"] })), expected);
+});
+
+Deno.test("rewritten deduplicated chunks release their blobs", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  const upload = await fs.createUpload({ path: ["up.bin"] });
+  assert(!("status" in upload));
+  //the save options are passed through to the chunks
+  const first = {
+    id: upload.id,
+    offset: 0,
+    content: new Uint8Array(100).fill(1),
+    deduplicate: true,
+  };
+  await fs.appendUpload(first);
+  const second = { ...first, offset: 100, content: new Uint8Array(50) };
+  await fs.appendUpload(second);
+  assertEquals(await count(kv, ["deno_kv_fs", "chunk_refs"]), 1);
+  const file = await fs.finishUpload(upload.id);
+  assert(!("status" in file));
+  await fs.delete({ path: ["up.bin"] });
+  await settle();
+  assertEquals(await count(kv, ["deno_kv_fs", "chunk_refs"]), 0);
+  assertEquals(await count(kv, ["deno_kv_fs", "blobs"]), 0);
+});
+
+Deno.test("corrupted and truncated chunks are detected", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  const data = new Uint8Array(140_000).fill(3);
+  await fs.save({ path: ["d", "a.bin"], content: data });
+  await fs.save({ path: ["d", "b.bin"], content: data });
+  await fs.save({ path: ["d", "c.bin"], content: data });
+  const chunkKey = async (name: string, n: number) => {
+    const file = await fs.read({ path: ["d", name] }) as File;
+    await file.content!.cancel();
+    return ["deno_kv_fs", "chunks", `d/${name}`, file.version!, n];
+  };
+  const corrupted = await chunkKey("a.bin", 2);
+  const chunk = ((await kv.get(corrupted)).value as Uint8Array).slice();
+  chunk[100] ^= 1;
+  await kv.set(corrupted, chunk);
+  await kv.delete(await chunkKey("b.bin", 3));
+  const readAll = async (name: string, verify: boolean) =>
+    await bytes(await fs.read({ path: ["d", name], verify: verify }));
+  await assertRejects(() => readAll("a.bin", true));
+  //without verify, only the missing chunks are noticed
+  assertEquals((await readAll("a.bin", false)).length, data.length);
+  await assertRejects(() => readAll("b.bin", false));
+  assertEquals(await readAll("c.bin", true), data);
+  const statuses = await fs.verifyAll({ path: ["d"] });
+  assertEquals(
+    statuses.map((s) => [s.path, s.status]),
+    [[["d", "a.bin"], "error"], [["d", "b.bin"], "error"]],
+  );
+});
+
+Deno.test("rangeResponse sends the stored bytes of compressed files", async () => {
+  await using env = setup();
+  const { fs } = env;
+  await fs.save({
+    path: ["f.txt"],
+    content: "compressible ".repeat(1000),
+    compression: "gzip",
+  });
+  const read = { decompress: false };
+  const file = await fs.read({ path: ["f.txt"], ...read }) as File;
+  assert(file.storedSize! < file.size);
+  const full = await fs.rangeResponse(
+    new Request("http://x/f.txt"),
+    file,
+    read,
+  );
+  assertEquals(full.headers.get("Content-Encoding"), "gzip");
+  assertEquals(full.headers.get("Content-Length"), `${file.storedSize}`);
+  assertEquals((await full.arrayBuffer()).byteLength, file.storedSize);
+  const ranged = await fs.rangeResponse(
+    new Request("http://x/f.txt", { headers: { Range: "bytes=10-" } }),
+    await fs.read({ path: ["f.txt"], ...read }) as File,
+    read,
+  );
+  assertEquals(ranged.status, 206);
+  assertEquals(
+    ranged.headers.get("Content-Range"),
+    `bytes 10-${file.storedSize! - 1}/${file.storedSize}`,
+  );
+  assertEquals((await ranged.arrayBuffer()).byteLength, file.storedSize! - 10);
+});
+
+Deno.test("rangeResponse answers suffix, unsatisfiable and multi-chunk ranges", async () => {
+  await using env = setup();
+  const { fs } = env;
+  //three chunks and a part of a fourth one
+  const data = Uint8Array.from({ length: 200_000 }, (_, i) => i % 251);
+  await fs.save({ path: ["f.bin"], content: data });
+  const ranged = async (range: string) =>
+    await fs.rangeResponse(
+      new Request("http://x/f.bin", { headers: { Range: range } }),
+      await fs.read({ path: ["f.bin"] }) as File,
+    );
+  const suffix = await ranged("bytes=-100");
+  assertEquals(suffix.status, 206);
+  assertEquals(
+    suffix.headers.get("Content-Range"),
+    "bytes 199900-199999/200000",
+  );
+  assertEquals(
+    new Uint8Array(await suffix.arrayBuffer()),
+    data.slice(199_900),
+  );
+  const longSuffix = await ranged("bytes=-300000");
+  assertEquals(
+    longSuffix.headers.get("Content-Range"),
+    "bytes 0-199999/200000",
+  );
+  assertEquals(new Uint8Array(await longSuffix.arrayBuffer()), data);
+  //from the end of the first chunk to the start of the third one
+  const across = await ranged("bytes=65530-131080");
+  assertEquals(across.status, 206);
+  assertEquals(across.headers.get("Content-Length"), "65551");
+  assertEquals(
+    new Uint8Array(await across.arrayBuffer()),
+    data.slice(65_530, 131_081),
+  );
+  const boundary = await ranged("bytes=65536-65536");
+  assertEquals(
+    new Uint8Array(await boundary.arrayBuffer()),
+    data.slice(65_536, 65_537),
+  );
+  for (const range of ["bytes=200000-", "bytes=-0"]) {
+    const unsatisfiable = await ranged(range);
+    assertEquals(unsatisfiable.status, 416);
+    assertEquals(
+      unsatisfiable.headers.get("Content-Range"),
+      "bytes */200000",
+    );
+    assertEquals(unsatisfiable.body, null);
+  }
+  //several ranges are not supported, the whole file is sent
+  const several = await ranged("bytes=0-1,5-6");
+  assertEquals(several.status, 200);
+  assertEquals(several.headers.get("Content-Length"), "200000");
+  assertEquals(new Uint8Array(await several.arrayBuffer()), data);
+});
+
+Deno.test("rangeResponse honors the conditional headers", async () => {
+  await using env = setup();
+  const { fs } = env;
+  await fs.save({ path: ["f.txt"], content: "data" });
+  const respond = async (method: string, headers: Record<string, string>) => {
+    const res = await fs.rangeResponse(
+      new Request("http://x/f.txt", { method: method, headers: headers }),
+      await fs.read({ path: ["f.txt"] }) as File,
+    );
+    await res.body?.cancel();
+    return res;
+  };
+  const plain = await respond("GET", {});
+  const etag = plain.headers.get("ETag")!;
+  const lastModified = plain.headers.get("Last-Modified")!;
+  assert(etag.startsWith('"'));
+  assertEquals((await respond("GET", { "If-None-Match": etag })).status, 304);
+  assertEquals(
+    (await respond("GET", { "If-None-Match": `"other", W/${etag}` })).status,
+    304,
+  );
+  assertEquals(
+    (await respond("GET", { "If-None-Match": '"other"' })).status,
+    200,
+  );
+  assertEquals((await respond("GET", { "If-Match": '"other"' })).status, 412);
+  assertEquals((await respond("GET", { "If-Match": etag })).status, 200);
+  assertEquals((await respond("GET", { "If-Match": "*" })).status, 200);
+  assertEquals(
+    (await respond("HEAD", { "If-Modified-Since": lastModified })).status,
+    304,
+  );
+  const before = new Date(Date.parse(lastModified) - 1000).toUTCString();
+  assertEquals(
+    (await respond("GET", { "If-Modified-Since": before })).status,
+    200,
+  );
+  //If-None-Match takes precedence over If-Modified-Since
+  assertEquals(
+    (await respond("GET", {
+      "If-None-Match": '"other"',
+      "If-Modified-Since": lastModified,
+    })).status,
+    200,
+  );
+  assertEquals(
+    (await respond("GET", { "If-Unmodified-Since": before })).status,
+    412,
+  );
+  //the unsafe methods fail instead of getting 304
+  const file = await fs.read({ path: ["f.txt"] }) as File;
+  await file.content!.cancel();
+  assertEquals(
+    DenoKvFs.evaluateConditions(
+      new Request("http://x/f.txt", {
+        method: "PUT",
+        headers: { "If-None-Match": "*" },
+      }),
+      file,
+    ),
+    412,
+  );
+  assertEquals(
+    DenoKvFs.evaluateConditions(
+      new Request("http://x/f.txt", {
+        method: "PUT",
+        headers: { "If-None-Match": "*" },
+      }),
+      null,
+    ),
+    undefined,
+  );
+});
+
+Deno.test("encrypted chunks are bound to their file and version", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  const keys: { [id: string]: CryptoKey } = {};
+  for (const id of ["k1", "k2"]) {
+    keys[id] = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+  let currentKey = "k1";
+  fs.keyProvider = (_path, keyId) => ({
+    id: keyId ?? currentKey,
+    key: keys[keyId ?? currentKey],
+  });
+  const content = new Uint8Array(150 * 1024).fill(7);
+  await fs.save({ path: ["a.bin"], content: content });
+  await fs.copy({ path: ["a.bin"], to: ["b.bin"] });
+  await fs.move({ path: ["b.bin"], to: ["c.bin"] });
+  assertEquals(await bytes(await fs.read({ path: ["c.bin"] })), content);
+  currentKey = "k2";
+  assertEquals(await fs.rotateKey(), []);
+  const rotated = await fs.read({ path: ["a.bin"] }) as File;
+  assertEquals(rotated.keyId, "k2");
+  assertEquals(await bytes(rotated), content);
+  //a chunk of another file does not decrypt
+  const a = await fs.stat(["a.bin"]);
+  const c = await fs.stat(["c.bin"]);
+  assert(a?.type == "file" && c?.type == "file");
+  const chunkOf = (file: File) => [
+    "deno_kv_fs",
+    "chunks",
+    fs.pathToURIComponent(file.path),
+    file.version!,
+    1,
+  ];
+  await kv.set(chunkOf(c.file), (await kv.get(chunkOf(a.file))).value);
+  const read = await fs.read({ path: ["c.bin"] }) as File;
+  let failed = false;
+  try {
+    await new Response(read.content).arrayBuffer();
+  } catch {
+    failed = true;
+  }
+  assert(failed, "the moved chunk was decrypted");
+});
+
+Deno.test("move and copy check the extension of the destination", async () => {
+  await using env = setup();
+  const { fs } = env;
+  await fs.save({ path: ["a.txt"], content: "<script>" });
+  const options = { path: ["a.txt"], allowedExtensions: ["txt"] };
+  for (
+    const res of [
+      await fs.move({ ...options, ...{ to: ["a.html"] } }),
+      await fs.copy({ ...options, ...{ to: ["a.html"] } }),
+    ]
+  ) {
+    assert("status" in res && res.status == "error");
+    assert(res.msg!.includes("extension"));
+  }
+  assertEquals(await fs.stat(["a.html"]), null);
+  assert(!("status" in await fs.move({ ...options, ...{ to: ["b.txt"] } })));
+});
+
+Deno.test("previous versions are kept, restored and pruned", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  fs.versionPolicy = () => ({ maxVersions: 2 });
+  const text = async (file: File | FileStatus | null) =>
+    new TextDecoder().decode(await bytes(file));
+  for (const content of ["v1", "v2", "v3", "v4"]) {
+    await fs.save({ path: ["f.txt"], content: content });
+    await settle(2); //the version ids sort by millisecond
+  }
+  await settle();
+  let versions = await fs.listVersions(["f.txt"]);
+  assertEquals(versions.length, 2);
+  const v2 = versions[1];
+  assertEquals(
+    await text(await fs.read({ path: ["f.txt"], version: v2.version })),
+    "v2",
+  );
+  const restored = await fs.restoreVersion({
+    path: ["f.txt"],
+    version: v2.version,
+  });
+  assert(!("status" in restored));
+  assertEquals(await text(await fs.read({ path: ["f.txt"] })), "v2");
+  versions = await fs.listVersions(["f.txt"]);
+  assertEquals(
+    await Promise.all(
+      versions.map(async (v) =>
+        await text(await fs.read({ path: ["f.txt"], version: v.version }))
+      ),
+    ).then((texts) => texts.sort()),
+    ["v3", "v4"],
+  );
+  const chunkVersions = async () => {
+    const res = new Set<unknown>();
+    for await (
+      const c of kv.list({ prefix: ["deno_kv_fs", "chunks", "f.txt"] })
+    ) {
+      res.add(c.key[3]);
+    }
+    return res.size;
+  };
+  assertEquals(await chunkVersions(), 3);
+  fs.versionPolicy = undefined;
+  await fs.pruneVersions({ path: [] });
+  await settle();
+  assertEquals(await fs.listVersions(["f.txt"]), []);
+  assertEquals(await chunkVersions(), 1);
+});
+
+Deno.test("trashed files are restored or purged after their retention", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  const text = async (file: File | FileStatus | null) =>
+    new TextDecoder().decode(await bytes(file));
+  await fs.save({ path: ["d", "a.txt"], content: "a" });
+  await fs.delete({ path: ["d", "a.txt"], trash: true });
+  assertEquals(await fs.read({ path: ["d", "a.txt"] }), null);
+  let [item] = await fs.listTrash(["d"]);
+  assertEquals(item.path, ["d", "a.txt"]);
+  assert(!("status" in await fs.restore(item.id)));
+  assertEquals(await text(await fs.read({ path: ["d", "a.txt"] })), "a");
+  assertEquals(await fs.listTrash(), []);
+  //a file saved at the path meanwhile is not replaced
+  await fs.delete({ path: ["d", "a.txt"], trash: true });
+  await fs.save({ path: ["d", "a.txt"], content: "new" });
+  [item] = await fs.listTrash();
+  const res = await fs.restore(item.id);
+  assert("status" in res && res.status == "error");
+  assertEquals(await text(await fs.read({ path: ["d", "a.txt"] })), "new");
+  await fs.emptyTrash();
+  //only the expired items are purged by the sweeper
+  await fs.save({ path: ["kept.txt"], content: "kept" });
+  await fs.delete({ path: ["kept.txt"], trash: true });
+  fs.trashRetentionMillis = 0;
+  await fs.save({ path: ["purged.txt"], content: "purged" });
+  await fs.delete({ path: ["purged.txt"], trash: true });
+  await fs.emptyTrash({ expiredOnly: true });
+  await settle();
+  assertEquals((await fs.listTrash()).map((i) => i.path), [["kept.txt"]]);
+  assertEquals(
+    await count(kv, ["deno_kv_fs", "chunks", "purged.txt"]),
+    0,
+  );
+  assertEquals(await count(kv, ["deno_kv_fs", "chunks", "kept.txt"]), 1);
+  assertEquals(await count(kv, ["deno_kv_fs", "chunks", "d/a.txt"]), 1);
+});
+
+Deno.test("saves over a quota are rejected and the usage follows the files", async () => {
+  await using env = setup();
+  const { fs } = env;
+  fs.quotaPolicy = () => [
+    { path: ["d"], maxBytes: 10 },
+    { maxFiles: 2 },
+  ];
+  const save = (path: string[], content: string) =>
+    fs.save({ path: path, content: content, clientId: "c" });
+  assert(!("status" in await save(["d", "a.txt"], "123456")));
+  const overPrefix = await save(["d", "b.txt"], "12345");
+  assert("status" in overPrefix && overPrefix.msg!.includes("quota"));
+  assertEquals(await fs.stat(["d", "b.txt"]), null);
+  //an overwritten file no longer counts
+  assert(!("status" in await save(["d", "a.txt"], "1234567890")));
+  assertEquals(await fs.getUsage({ path: ["d"] }), {
+    size: 10,
+    filesCount: 1,
+  });
+  assert(!("status" in await save(["e.txt"], "e")));
+  const overClient = await save(["f.txt"], "f");
+  assert("status" in overClient && overClient.msg!.includes("quota"));
+  assertEquals(await fs.getUsage({ clientId: "c" }), {
+    size: 11,
+    filesCount: 2,
+  });
+  await save(["d", "a.txt"], "1");
+  await fs.delete({ path: ["e.txt"] });
+  assertEquals(await fs.getUsage({ clientId: "c" }), {
+    size: 1,
+    filesCount: 1,
+  });
+  assertEquals(await fs.getUsage({ path: ["d"] }), { size: 1, filesCount: 1 });
+  assert(!("status" in await save(["f.txt"], "f")));
+});
+
+Deno.test("rebuildDirs counts the files saved before the directories", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  await fs.save({ path: ["a", "b", "f1.txt"], content: "12345" });
+  await fs.save({ path: ["a", "f2.txt"], content: "123" });
+  await fs.mkdir({ path: ["empty"] });
+  for await (const d of kv.list({ prefix: ["deno_kv_fs", "dirs"] })) {
+    if (!(d.value as { explicit: boolean }).explicit) {
+      await kv.delete(d.key);
+    }
+  }
+  await kv.set(["deno_kv_fs", "dirs", "", "stale"], {
+    path: ["stale"],
+    URIComponent: "stale",
+    size: 1,
+    filesCount: 1,
+    explicit: false,
+  });
+  assertEquals(await fs.stat(["a"]), null);
+  await fs.rebuildDirs();
+  const a = await fs.stat(["a"]);
+  assert(a?.type == "dir");
+  assertEquals([a.dir.size, a.dir.filesCount], [8, 2]);
+  const b = await fs.stat(["a", "b"]);
+  assert(b?.type == "dir");
+  assertEquals([b.dir.size, b.dir.filesCount], [5, 1]);
+  assertEquals((await fs.stat(["empty"]))?.type, "dir");
+  assertEquals(await fs.stat(["stale"]), null);
+});
+
+Deno.test("open query ranges keep to the type of their value", async () => {
+  //MemoryBackend sorts the numbers before the bigints, Deno KV after them
+  for (const kv of [new MemoryBackend(), await Deno.openKv(":memory:")]) {
+    const fs = new DenoKvFs(kv);
+    fs.indexedFields = ["n"];
+    for (const n of ["x", "", 1, 3, 7, -Infinity, true, false]) {
+      await fs.save({
+        path: [`${String(n)}.txt`],
+        content: "",
+        metadata: { n: n },
+      });
+    }
+    const values = async (options: Omit<QueryOptions, "field">) =>
+      (await fs.query({ ...options, ...{ field: "n" } })).files.map((f) =>
+        (f as File).metadata!.n
+      );
+    assertEquals(await values({ gte: 5 }), [7]);
+    assertEquals(await values({ gt: 1 }), [3, 7]);
+    assertEquals(await values({ lt: 5 }), [-Infinity, 1, 3]);
+    assertEquals(await values({ lte: 3, reverse: true }), [3, 1, -Infinity]);
+    assertEquals(await values({ gte: "a" }), ["x"]);
+    assertEquals(await values({ lt: "x" }), [""]);
+    assertEquals(await values({ gt: false }), [true]);
+    assertEquals(await values({ lte: true, reverse: true }), [true, false]);
+    await fs.close();
+    kv.close();
+  }
+});
+
+Deno.test("query pages end after the last entry consumed", async () => {
+  await using env = setup();
+  const { fs } = env;
+  fs.indexedFields = ["tag"];
+  const save = (path: string[]) =>
+    fs.save({ path: path, content: "x", metadata: { tag: "t" } });
+  for (let i = 0; i < 10; i++) {
+    await save(["0", `${i}`]);
+  }
+  for (let i = 0; i < 1001; i++) {
+    await save(["a", `${i}`.padStart(4, "0")]);
+  }
+  const options = { field: "tag", path: ["a"], pagination: true };
+  const first = await fs.query(options);
+  assertEquals(first.files.length, 1000);
+  assert(first.cursor);
+  const second = await fs.query({ ...options, cursor: first.cursor });
+  assertEquals(second.files.map((f) => f.path), [["a", "1000"]]);
+  assertEquals(second.cursor, undefined);
+});
+
+Deno.test("readDir pages end after the last entry consumed", async () => {
+  await using env = setup();
+  const { fs } = env;
+  for (let i = 0; i < 10; i++) {
+    await fs.save({ path: ["d", "0", `${i}`], content: "x", ttlMs: 1 });
+  }
+  for (let i = 0; i < 1001; i++) {
+    await fs.save({ path: ["d", "a", `${i}`.padStart(4, "0")], content: "x" });
+  }
+  await settle(10);
+  const first = await fs.readDir({ path: ["d"], pagination: true });
+  assertEquals(first.files.length, 1000);
+  assert(first.cursor);
+  const second = await fs.readDir({
+    path: ["d"],
+    pagination: true,
+    cursor: first.cursor,
+  });
+  assertEquals(second.files.map((f) => f.path), [["d", "a", "1000"]]);
+});
+
+Deno.test("a failure of the expiry worker is reported", async () => {
+  class FailingQueue extends MemoryBackend {
+    override listenQueue(): Promise<void> {
+      return Promise.reject(new Error("queue closed"));
+    }
+  }
+  const fs = new DenoKvFs(new FailingQueue());
+  const statuses: FileStatus[] = [];
+  fs.onFileProgress = (status) => statuses.push(status);
+  fs.startExpiryWorker();
+  await settle(10);
+  assertEquals(
+    statuses.map((s) => s.msg),
+    ["The expiry worker stopped (queue closed)."],
+  );
+});
+
+Deno.test("upload parts are joined in order, whatever order they came in", async () => {
+  await using env = setup();
+  const { fs, kv } = env;
+  const upload = await fs.createUpload({ path: ["up.bin"] });
+  assert(!("status" in upload));
+  const part = (n: number, size: number) => new Uint8Array(size).fill(n);
+  await fs.uploadPart({ id: upload.id, part: 3, content: part(3, 10) });
+  await fs.uploadPart({ id: upload.id, part: 1, content: part(9, 70000) });
+  await fs.uploadPart({ id: upload.id, part: 2, content: part(2, 100) });
+  await fs.uploadPart({ id: upload.id, part: 1, content: part(1, 70000) }); //sent again
+  await fs.uploadPart({ id: upload.id, part: 4, content: part(4, 5) });
+  const missing = await fs.finishUpload(upload.id, { parts: [1, 5] });
+  assert("status" in missing && missing.status == "error");
+  const file = await fs.finishUpload(upload.id, { parts: [1, 2, 3] });
+  assert(!("status" in file));
+  assertEquals(file.size, 70110);
+  const expected = new Uint8Array(70110);
+  expected.set(part(1, 70000));
+  expected.set(part(2, 100), 70000);
+  expected.set(part(3, 10), 70100);
+  assertEquals(await bytes(await fs.read({ path: ["up.bin"] })), expected);
+  await settle();
+  assertEquals(await count(kv, ["deno_kv_fs", "upload_parts"]), 0);
+  assertEquals(await count(kv, ["deno_kv_fs", "garbage"]), 0);
+  assertEquals(await count(kv, ["deno_kv_fs", "unresolved"]), 0);
+  //only the chunks of the file remain
+  assertEquals(await count(kv, ["deno_kv_fs", "chunks"]), 2);
+});
+
+Deno.test("uploads are only changed with access to their path", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const upload = await fs.createUpload({ path: ["up.bin"] });
+  assert(!("status" in upload));
+  const denied = () => false;
+  const results = [
+    await fs.appendUpload({
+      id: upload.id,
+      offset: 0,
+      content: "x",
+      validateAccess: denied,
+    }),
+    await fs.uploadPart({
+      id: upload.id,
+      part: 1,
+      content: "x",
+      validateAccess: denied,
+    }),
+    await fs.finishUpload(upload.id, { validateAccess: denied }),
+    await fs.abortUpload(upload.id, { validateAccess: denied }),
+  ];
+  for (const res of results) {
+    assert(res && "status" in res && res.msg == "Forbidden");
+  }
+  assert(await fs.getUpload(upload.id));
+});
+
+Deno.test("a file over the maximum size is saved flagged incomplete", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const file = await fs.save({
+    path: ["big.bin"],
+    content: new Uint8Array(200 * 1024),
+    maxFileSizeBytes: 10,
+  });
+  assert(!("status" in file), "the file was expected to be saved");
+  assert(file.flags.includes("incomplete"));
+  assert(file.size < 200 * 1024);
+  assertEquals((await fs.stat(["big.bin"]))?.type, "file");
+});
+
+Deno.test("watch yields the changes of every shard in commit order", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const paths = ["a", "b", "c", "d", "e", "f"].map((n) => [n, `${n}.txt`]);
+  const events = fs.watch([]);
+  const first = events.next(); //takes the current heads
+  await settle(50);
+  for (const path of paths) {
+    await fs.save({ path: path, content: "x" });
+  }
+  const received = [(await first).value];
+  while (received.length < paths.length) {
+    received.push((await events.next()).value);
+  }
+  await events.return(undefined);
+  assertEquals(received.map((e) => e.path), paths);
+  const resumed = fs.watch([], { cursor: received[2].cursor });
+  const rest = [];
+  while (rest.length < paths.length - 3) {
+    rest.push((await resumed.next()).value);
+  }
+  await resumed.return(undefined);
+  assertEquals(rest.map((e) => e.path), paths.slice(3));
+});
+
+Deno.test("the failed operations report their clientId", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const statuses: FileStatus[] = [];
+  fs.onFileProgress = (status) => statuses.push(status);
+  const res = await fs.save({
+    path: ["a.txt"],
+    content: "a",
+    clientId: "client_1",
+    validateAccess: () => false,
+  });
+  assert("status" in res && res.status == "error");
+  assertEquals(res.clientId, "client_1");
+  assertEquals(statuses.map((s) => s.clientId), ["client_1"]);
+});
+
+Deno.test("a migration does not commit over the changes made meanwhile", async () => {
+  await using env = setup();
+  const { fs } = env;
+  let changed = false;
+  class ColdBackend extends MemoryBackend {
+    override atomic() {
+      const op = super.atomic();
+      const commit = op.commit.bind(op);
+      op.commit = async () => {
+        if (!changed) { //while the chunks are copied
+          changed = true;
+          await fs.setMetadata(["a.txt"], { changed: true });
+        }
+        return await commit();
+      };
+      return op;
+    }
+  }
+  fs.tiers = { cold: new ColdBackend() };
+  await fs.save({ path: ["a.txt"], content: "a" });
+  await fs.pinTier(["a.txt"], "cold");
+  const file = await fs.read({ path: ["a.txt"] });
+  assert(file && !("status" in file), "a file was expected");
+  await file.content?.cancel();
+  assertEquals(file.metadata, { changed: true });
+  assertEquals(file.tier, undefined);
+});
+
+Deno.test("pinTier needs access to the path", async () => {
+  await using env = setup();
+  const { fs } = env;
+  fs.tiers = { cold: new MemoryBackend() };
+  await fs.save({ path: ["a.txt"], content: "a" });
+  const res = await fs.pinTier(["a.txt"], "cold", {
+    validateAccess: () => false,
+  });
+  assert("status" in res && res.msg == "Forbidden");
+  assertEquals((await fs.getMetadata(["a.txt"])) !== undefined, true);
+});
+
+Deno.test("a failure to record a read is reported", async () => {
+  class FailingBackend extends MemoryBackend {
+    override set(
+      key: Deno.KvKey,
+      value: unknown,
+      options?: { expireIn?: number },
+    ) {
+      return key[1] == "accessed"
+        ? Promise.reject(new Error("unavailable"))
+        : super.set(key, value, options);
+    }
+  }
+  const kv = new FailingBackend();
+  await using fs = new DenoKvFs(kv);
+  const statuses: FileStatus[] = [];
+  fs.onFileProgress = (status) => statuses.push(status);
+  fs.tieringRules = [{ tier: "cold", minIdleMillis: 1000 }];
+  await fs.save({ path: ["a.txt"], content: "a" });
+  await bytes(await fs.read({ path: ["a.txt"] }));
+  await settle();
+  const failed = statuses.filter((s) => s.status == "error");
+  assertEquals(failed.map((s) => s.path), [["a.txt"]]);
+  assert(failed[0].msg!.includes("unavailable"));
+});
+
+Deno.test("an exported directory is imported with its paths and metadata", async () => {
+  await using env = setup();
+  const { fs } = env;
+  await fs.save({ path: ["d", "a.txt"], content: "a", metadata: { n: 1 } });
+  await fs.save({ path: ["d", "e", "b/c.txt"], content: "bc" });
+  const archive = await fs.exportDir({ path: ["d"] });
+  assert(!("status" in archive), "an archive was expected");
+  const errors = await fs.importArchive(archive, { path: ["copy"] });
+  assertEquals(errors, []);
+  assertEquals(await fs.getMetadata(["copy", "a.txt"]), { n: 1 });
+  assertEquals(
+    new TextDecoder().decode(
+      await bytes(await fs.read({ path: ["copy", "e", "b/c.txt"] })),
+    ),
+    "bc",
+  );
+  assertEquals(await fs.stat(["copy", "e", "b", "c.txt"]), null);
+});
+
+//a tar archive with the entries, in their order
+async function tar(
+  entries: [string, string][],
+): Promise<ReadableStream<Uint8Array>> {
+  const writer = archiveWriter("tar");
+  const parts: Uint8Array[] = [];
+  for (const [name, text] of entries) {
+    const data = new TextEncoder().encode(text);
+    for await (
+      const part of writer.entry(
+        name,
+        data.length,
+        Date.now(),
+        new Blob([data]).stream(),
+      )
+    ) {
+      parts.push(part);
+    }
+  }
+  parts.push(writer.end());
+  return new Blob(parts as BlobPart[]).stream();
+}
+
+Deno.test("a manifest with paths out of the directory is rejected", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const manifest = JSON.stringify({
+    files: [{ name: "a.txt", path: ["..", "a.txt"], size: 1 }],
+  });
+  const errors = await fs.importArchive(
+    await tar([["a.txt", "a"], ["deno_kv_fs.manifest.json", manifest]]),
+    { path: ["in"] },
+  );
+  assertEquals(errors.length, 1);
+  assertEquals((await fs.stat(["in", "a.txt"]))?.type, "file");
+  assertEquals(await fs.stat(["a.txt"]), null);
+});
+
+Deno.test("a manifest path with another extension is rejected", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const manifest = JSON.stringify({
+    files: [{ name: "a.txt", path: ["a.html"], size: 1 }],
+  });
+  const errors = await fs.importArchive(
+    await tar([["a.txt", "a"], ["deno_kv_fs.manifest.json", manifest]]),
+    { path: ["in"], allowedExtensions: ["txt"] },
+  );
+  assertEquals(errors.map((e) => e.path), [["in", "a.html"]]);
+  assertEquals(await fs.stat(["in", "a.html"]), null);
+  assertEquals((await fs.stat(["in", "a.txt"]))?.type, "file");
+});
+
+Deno.test("the entries after a file left unread are imported", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const errors = await fs.importArchive(
+    await tar([["big.txt", "x".repeat(300_000)], ["a.txt", "a"]]),
+    { path: ["in"], maxFileSizeBytes: 10 }, //big.txt is saved incomplete
+  );
+  assertEquals(errors, []);
+  assertEquals(
+    new TextDecoder().decode(
+      await bytes(await fs.read({ path: ["in", "a.txt"] })),
+    ),
+    "a",
+  );
+});
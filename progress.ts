@@ -0,0 +1,115 @@
+import type { DenoKvFs, FileStatus } from "./mod.ts";
+
+interface ProgressFilter {
+  clientId?: string | number; //only the statuses of the operations of the client
+  path?: string[]; //only the statuses of the files under the path
+}
+type ProgressListener = (status: FileStatus) => void;
+
+const heartbeatMillis = 15 * 1000; //keeps idle SSE connections open through proxies
+
+//Fans the onFileProgress statuses of an instance out to many listeners, each
+//one scoped by clientId and/or path. It keeps calling the previous callback.
+class ProgressHub {
+  #listeners = new Set<
+    { filter: ProgressFilter; listener: ProgressListener }
+  >();
+  //a failing listener does not stop the others, its error is passed here
+  onListenerError: (e: unknown, status: FileStatus) => void = () => undefined;
+
+  constructor(fs: DenoKvFs) {
+    const previous = fs.onFileProgress;
+    fs.onFileProgress = (status: FileStatus) => {
+      previous(status);
+      this.publish(status);
+    };
+  }
+  //Returns the function that unsubscribes the listener.
+  subscribe(filter: ProgressFilter, listener: ProgressListener): () => void {
+    const subscription = { filter: filter, listener: listener };
+    this.#listeners.add(subscription);
+    return () => {
+      this.#listeners.delete(subscription);
+    };
+  }
+  publish(status: FileStatus): void {
+    for (const { filter, listener } of this.#listeners) {
+      if (
+        filter.clientId !== undefined && filter.clientId !== status.clientId
+      ) {
+        continue;
+      }
+      if (
+        filter.path &&
+        !(status.path.length >= filter.path.length &&
+          filter.path.every((p, i) => p === status.path[i]))
+      ) {
+        continue;
+      }
+      try {
+        listener(status);
+      } catch (e) {
+        this.onListenerError(e, status);
+      }
+    }
+  }
+  //A Server-Sent Events response with the statuses as "progress" events. It
+  //unsubscribes when the client disconnects (or the request is aborted).
+  sseResponse(filter: ProgressFilter, request?: Request): Response {
+    const enc = new TextEncoder();
+    let unsubscribe = () => {};
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    const close = () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+    };
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (text: string) => {
+          try {
+            controller.enqueue(enc.encode(text));
+          } catch {
+            close(); //the stream was closed
+          }
+        };
+        unsubscribe = this.subscribe(filter, (status: FileStatus) => {
+          send(`event: progress\ndata: ${JSON.stringify(status)}\n\n`);
+        });
+        heartbeat = setInterval(() => send(": heartbeat\n\n"), heartbeatMillis);
+        request?.signal.addEventListener("abort", () => {
+          close();
+          try {
+            controller.close();
+          } catch {
+            //
+          }
+        });
+      },
+      cancel: close,
+    });
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      },
+    });
+  }
+  //Upgrades the request to a WebSocket that receives the statuses as JSON.
+  webSocketResponse(request: Request, filter: ProgressFilter): Response {
+    const { socket, response } = Deno.upgradeWebSocket(request);
+    let unsubscribe = () => {};
+    socket.onopen = () => {
+      unsubscribe = this.subscribe(filter, (status: FileStatus) => {
+        if (socket.readyState == WebSocket.OPEN) {
+          socket.send(JSON.stringify(status));
+        }
+      });
+    };
+    socket.onclose = () => unsubscribe();
+    socket.onerror = () => unsubscribe();
+    return response;
+  }
+}
+
+export { type ProgressFilter, ProgressHub, type ProgressListener };
@@ -0,0 +1,91 @@
+import { DenoKvFs, type FileStatus, MemoryBackend } from "./mod.ts";
+import { ProgressHub } from "./progress.ts";
+import { assertEquals } from "./dev_deps.ts";
+
+function setup(): { fs: DenoKvFs; hub: ProgressHub } & AsyncDisposable {
+  const kv = new MemoryBackend();
+  const fs = new DenoKvFs(kv);
+  return {
+    fs: fs,
+    hub: new ProgressHub(fs),
+    async [Symbol.asyncDispose]() {
+      await fs.close();
+      kv.close();
+    },
+  };
+}
+
+function status(path: string[], clientId?: string | number): FileStatus {
+  return {
+    URIComponent: path.join("/"),
+    path: path,
+    status: "saving",
+    progress: 1,
+    clientId: clientId,
+  };
+}
+
+Deno.test("the listeners get the statuses of their clientId and path", async () => {
+  await using env = setup();
+  const { fs } = env;
+  const previous: FileStatus[] = [];
+  fs.onFileProgress = (s) => previous.push(s);
+  const hub = new ProgressHub(fs); //keeps calling the previous callback
+  const byClient: string[] = [];
+  const byPath: string[] = [];
+  const byBoth: string[] = [];
+  hub.subscribe({ clientId: 1 }, (s) => byClient.push(s.URIComponent));
+  hub.subscribe({ path: ["d"] }, (s) => byPath.push(s.URIComponent));
+  const unsubscribe = hub.subscribe(
+    { clientId: 1, path: ["d"] },
+    (s) => byBoth.push(s.URIComponent),
+  );
+  fs.onFileProgress(status(["d", "a.txt"], 1));
+  fs.onFileProgress(status(["d", "b.txt"], "1"));
+  fs.onFileProgress(status(["dd", "c.txt"], 1));
+  fs.onFileProgress(status(["d"]));
+  unsubscribe();
+  fs.onFileProgress(status(["d", "e", "f.txt"], 1));
+  assertEquals(byClient, ["d/a.txt", "dd/c.txt", "d/e/f.txt"]);
+  assertEquals(byPath, ["d/a.txt", "d/b.txt", "d", "d/e/f.txt"]);
+  assertEquals(byBoth, ["d/a.txt"]);
+  assertEquals(previous.length, 5);
+});
+
+Deno.test("a failing listener does not stop the others", async () => {
+  await using env = setup();
+  const { fs, hub } = env;
+  const errors: [unknown, FileStatus][] = [];
+  hub.onListenerError = (e, s) => errors.push([e, s]);
+  const received: FileStatus[] = [];
+  hub.subscribe({}, () => {
+    throw new Error("listener");
+  });
+  hub.subscribe({}, (s) => received.push(s));
+  const sent = status(["a.txt"]);
+  fs.onFileProgress(sent);
+  assertEquals(received, [sent]);
+  assertEquals(errors.length, 1);
+  assertEquals((errors[0][0] as Error).message, "listener");
+  assertEquals(errors[0][1], sent);
+});
+
+Deno.test("sseResponse sends the statuses as progress events", async () => {
+  await using env = setup();
+  const { fs, hub } = env;
+  const controller = new AbortController();
+  const res = hub.sseResponse(
+    { path: ["d"] },
+    new Request("http://x/progress", { signal: controller.signal }),
+  );
+  assertEquals(res.headers.get("Content-Type"), "text/event-stream");
+  const sent = status(["d", "a.txt"], "c");
+  fs.onFileProgress(status(["other.txt"]));
+  fs.onFileProgress(sent);
+  controller.abort(); //unsubscribes and ends the stream
+  fs.onFileProgress(status(["d", "b.txt"]));
+  assertEquals(
+    await res.text(),
+    `event: progress\ndata: ${JSON.stringify(sent)}\n\n`,
+  );
+});
@@ -0,0 +1,565 @@
+import { DenoKvFs } from "./mod.ts";
+import type {
+  File,
+  FileStatus,
+  ReadOptions,
+  SaveOptions,
+  UploadOptions,
+  UploadPartOptions,
+} from "./mod.ts";
+import {
+  type HttpHandlerOptions,
+  requestContext,
+  setContentHeaders,
+  statusCode,
+} from "./http.ts";
+
+const s3Namespace = "http://s3.amazonaws.com/doc/2006-03-01/";
+
+const errorCodes: { [status: number]: string } = {
+  400: "InvalidArgument",
+  403: "AccessDenied",
+  404: "NoSuchKey",
+  409: "OperationAborted",
+  412: "PreconditionFailed",
+  413: "EntityTooLarge",
+  415: "InvalidArgument",
+  429: "SlowDown",
+  507: "QuotaExceeded",
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function xmlResponse(body: string, status: number = 200): Response {
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?>\n${body}`, {
+    status: status,
+    headers: { "Content-Type": "application/xml" },
+  });
+}
+
+function s3Error(status: number, code: string, message: string): Response {
+  return xmlResponse(
+    `<Error><Code>${code}</Code><Message>${
+      escapeXml(message)
+    }</Message></Error>`,
+    status,
+  );
+}
+
+function statusError(status: FileStatus, code?: string): Response {
+  const httpStatus = statusCode(status);
+  return s3Error(
+    httpStatus,
+    code || errorCodes[httpStatus] || "InvalidRequest",
+    status.msg || status.status,
+  );
+}
+
+//The "x-amz-meta-*" headers, and the Content-Type, as the metadata of the file.
+function amzMetadata(request: Request): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  for (const [name, value] of request.headers) {
+    if (name.startsWith("x-amz-meta-")) {
+      metadata[name.slice("x-amz-meta-".length)] = value;
+    }
+  }
+  if (request.headers.has("Content-Type")) {
+    metadata.contentType = request.headers.get("Content-Type");
+  }
+  return metadata;
+}
+
+function setAmzMetadata(headers: Headers, file: File): void {
+  for (const [key, value] of Object.entries(file.metadata || {})) {
+    const header = typeof value == "string" ? value : JSON.stringify(value);
+    //headers only carry printable ASCII
+    if (
+      key != "contentType" && /^[\w.-]+$/.test(key) &&
+      /^[\x20-\x7e]*$/.test(header)
+    ) {
+      headers.set(`x-amz-meta-${key}`, header);
+    }
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length == 0) {
+    return b;
+  }
+  const res = new Uint8Array(a.length + b.length);
+  res.set(a);
+  res.set(b, a.length);
+  return res;
+}
+
+//Removes the framing of "aws-chunked" bodies (STREAMING-* payloads), where each
+//chunk is preceded by its hexadecimal size and signature, and the trailers follow
+//the last one.
+function decodeAwsChunked(
+  body: ReadableStream<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  const dec = new TextDecoder();
+  let buffer: Uint8Array = new Uint8Array();
+  let remaining = 0; //bytes of the current chunk not forwarded yet
+  let done = false;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(data, controller) {
+        buffer = concat(buffer, data);
+        while (!done && buffer.length > 0) {
+          if (remaining > 0) {
+            const piece = buffer.subarray(0, remaining);
+            controller.enqueue(piece.slice());
+            remaining -= piece.length;
+            buffer = buffer.subarray(piece.length);
+            continue;
+          }
+          let end = 0;
+          while (
+            end < buffer.length - 1 &&
+            !(buffer[end] == 13 && buffer[end + 1] == 10)
+          ) {
+            end++;
+          }
+          if (end >= buffer.length - 1) {
+            return; //the line is incomplete
+          }
+          const line = dec.decode(buffer.subarray(0, end));
+          buffer = buffer.subarray(end + 2);
+          if (line == "") { //the end of the previous chunk
+            continue;
+          }
+          remaining = parseInt(line.split(";")[0], 16);
+          if (!(remaining > 0)) {
+            done = true; //the last chunk, followed by the trailers
+          }
+        }
+      },
+    }),
+  );
+}
+
+function requestBody(request: Request): ReadableStream | string {
+  if (!request.body) {
+    return "";
+  }
+  const streaming =
+    (request.headers.get("x-amz-content-sha256") || "").startsWith(
+      "STREAMING-",
+    ) ||
+    (request.headers.get("Content-Encoding") || "").includes("aws-chunked");
+  return streaming ? decodeAwsChunked(request.body) : request.body;
+}
+
+function lastModified(file: File): string {
+  return new Date(file.updatedAt ?? 0).toISOString();
+}
+
+//ListObjectsV2: the prefix is split into a directory, listed with readDir, and
+//the beginning of the names in it.
+async function listObjects(
+  fs: DenoKvFs,
+  readOptions: ReadOptions,
+  url: URL,
+): Promise<Response> {
+  const bucket: string = readOptions.path[0];
+  const query = url.searchParams;
+  const prefix = query.get("prefix") || "";
+  const delimiter = query.get("delimiter") || "";
+  if (delimiter && delimiter != "/") {
+    return s3Error(
+      501,
+      "NotImplemented",
+      'Only the "/" delimiter is supported.',
+    );
+  }
+  const segments = prefix.split("/");
+  const partial = segments.pop()!;
+  const dirPath = [bucket, ...segments];
+  const list = await fs.readDir({
+    ...readOptions,
+    ...{
+      path: dirPath,
+      shallow: delimiter == "/",
+      pagination: true,
+      cursor: query.get("continuation-token") || undefined,
+    },
+  });
+  const first = list.files[0];
+  if (first && "status" in first && first.status == "error") {
+    return statusError(first); //forbidden
+  }
+  const encode = query.get("encoding-type") == "url";
+  const keyOf = (path: string[]) =>
+    encode ? fs.pathToURIComponent(path.slice(1)) : path.slice(1).join("/");
+  let keyCount = 0;
+  let contents = "";
+  for (const file of list.files) {
+    if ("status" in file) { //being saved or deleted
+      continue;
+    }
+    await file.content?.cancel();
+    if (file.path[dirPath.length].startsWith(partial)) {
+      keyCount++;
+      contents += `<Contents><Key>${escapeXml(keyOf(file.path))}</Key>` +
+        `<LastModified>${lastModified(file)}</LastModified>` +
+        `<ETag>${escapeXml(DenoKvFs.etag(file) || "")}</ETag>` +
+        `<Size>${file.size}</Size><StorageClass>STANDARD</StorageClass>` +
+        `</Contents>`;
+    }
+  }
+  for (const dir of list.dirs || []) {
+    if (dir.path[dirPath.length].startsWith(partial)) {
+      keyCount++;
+      contents += `<CommonPrefixes><Prefix>${
+        escapeXml(keyOf(dir.path) + "/")
+      }</Prefix></CommonPrefixes>`;
+    }
+  }
+  const token = query.get("continuation-token");
+  return xmlResponse(
+    `<ListBucketResult xmlns="${s3Namespace}">` +
+      `<Name>${escapeXml(bucket)}</Name>` +
+      `<Prefix>${
+        escapeXml(
+          encode
+            ? segments.concat(partial).map(encodeURIComponent).join("/")
+            : prefix,
+        )
+      }</Prefix>` +
+      (delimiter ? `<Delimiter>${delimiter}</Delimiter>` : "") +
+      (encode ? `<EncodingType>url</EncodingType>` : "") +
+      `<MaxKeys>1000</MaxKeys><KeyCount>${keyCount}</KeyCount>` +
+      `<IsTruncated>${!!list.cursor}</IsTruncated>` +
+      (token
+        ? `<ContinuationToken>${escapeXml(token)}</ContinuationToken>`
+        : "") +
+      (list.cursor
+        ? `<NextContinuationToken>${
+          escapeXml(list.cursor)
+        }</NextContinuationToken>`
+        : "") +
+      `${contents}</ListBucketResult>`,
+  );
+}
+
+//Serves the files with a subset of the S3 API: the buckets are the first
+//segment of the paths and the keys are split by "/" into the rest. The
+//requests can be authenticated (e.g. by checking the AWS Signature Version 4)
+//with the validateAccess option, which receives the request.
+function createS3Handler(
+  fs: DenoKvFs,
+  options: HttpHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const context = await requestContext(fs, options, request);
+    if (typeof context == "number") {
+      return s3Error(400, "InvalidURI", "Couldn't parse the specified URI.");
+    }
+    const { path, isDir, clientId, validateAccess, readOptions, saveOptions } =
+      context;
+    const query = url.searchParams;
+    const uploadId = query.get("uploadId");
+    try {
+      if (path.length == 0) { //ListBuckets
+        if (request.method != "GET") {
+          return s3Error(405, "MethodNotAllowed", "The method is not allowed.");
+        }
+        const list = await fs.readDir({ ...readOptions, ...{ shallow: true } });
+        const first = list.files[0];
+        if (first && "status" in first && first.status == "error") {
+          return statusError(first);
+        }
+        for (const file of list.files) {
+          if (!("status" in file)) {
+            await file.content?.cancel();
+          }
+        }
+        const buckets = (list.dirs || []).map((dir) =>
+          `<Bucket><Name>${escapeXml(dir.path[0])}</Name>` +
+          `<CreationDate>${new Date(0).toISOString()}</CreationDate></Bucket>`
+        ).join("");
+        return xmlResponse(
+          `<ListAllMyBucketsResult xmlns="${s3Namespace}">` +
+            `<Owner><ID>deno-kv-fs</ID></Owner>` +
+            `<Buckets>${buckets}</Buckets></ListAllMyBucketsResult>`,
+        );
+      }
+      if (path.length == 1) {
+        switch (request.method) {
+          case "GET":
+            if (query.has("location")) {
+              return xmlResponse(
+                `<LocationConstraint xmlns="${s3Namespace}"/>`,
+              );
+            }
+            return await listObjects(fs, readOptions, url);
+          case "HEAD":
+            if (validateAccess && !(await validateAccess(path))) {
+              return new Response(null, { status: 403 });
+            }
+            return (await fs.stat(path))?.type == "dir"
+              ? new Response(null, { status: 200 })
+              : new Response(null, { status: 404 });
+          case "PUT": {
+            const dir = await fs.mkdir(readOptions);
+            return "status" in dir ? statusError(dir) : new Response(null, {
+              status: 200,
+              headers: { "Location": `/${path[0]}` },
+            });
+          }
+          case "DELETE": {
+            const status = await fs.rmdir(readOptions);
+            if (status) {
+              const msg = status.msg || "";
+              return msg.includes("not empty")
+                ? s3Error(409, "BucketNotEmpty", msg)
+                : statusError(
+                  status,
+                  msg.includes("not found") ? "NoSuchBucket" : undefined,
+                );
+            }
+            return new Response(null, { status: 204 });
+          }
+          default:
+            return s3Error(
+              501,
+              "NotImplemented",
+              `${request.method} is not implemented for buckets.`,
+            );
+        }
+      }
+      const key = path.slice(1).join("/") + (isDir ? "/" : "");
+      switch (request.method) {
+        case "GET":
+        case "HEAD": {
+          if (isDir) {
+            return s3Error(404, "NoSuchKey", `The key ${key} does not exist.`);
+          }
+          const file = await fs.read(readOptions);
+          if (!file) {
+            return s3Error(404, "NoSuchKey", `The key ${key} does not exist.`);
+          }
+          if ("status" in file) {
+            return statusError(file);
+          }
+          const response = await fs.rangeResponse(request, file, readOptions);
+          setContentHeaders(response.headers, file);
+          setAmzMetadata(response.headers, file);
+          return response;
+        }
+        case "PUT": {
+          if (uploadId) { //UploadPart
+            const part = parseInt(query.get("partNumber") || "");
+            if (!(part >= 1 && part <= 10000)) {
+              return s3Error(
+                400,
+                "InvalidArgument",
+                "The part number must be between 1 and 10000.",
+              );
+            }
+            const upload = await fs.getUpload(uploadId);
+            if (!upload || upload.URIComponent != fs.pathToURIComponent(path)) {
+              return s3Error(
+                404,
+                "NoSuchUpload",
+                `The upload ${uploadId} does not exist.`,
+              );
+            }
+            //stored apart, so the parts can arrive in any order and be sent again
+            const partOptions: UploadPartOptions = {
+              id: uploadId,
+              part: part,
+              content: requestBody(request),
+              clientId: clientId,
+            };
+            if (validateAccess) {
+              partOptions.validateAccess = validateAccess;
+            }
+            const res = await fs.uploadPart(partOptions);
+            return "status" in res ? statusError(res) : new Response(null, {
+              status: 200,
+              headers: { "ETag": `"${res.checksum}"` },
+            });
+          }
+          if (request.headers.has("x-amz-copy-source")) {
+            return s3Error(
+              501,
+              "NotImplemented",
+              "CopyObject is not supported.",
+            );
+          }
+          if (isDir) { //"folder" objects are directories
+            await request.body?.cancel();
+            const dir = await fs.mkdir(readOptions);
+            return "status" in dir
+              ? statusError(dir)
+              : new Response(null, { status: 200 });
+          }
+          //before the conditions, which would tell whether the key exists
+          if (validateAccess && !(await validateAccess(path))) {
+            await request.body?.cancel();
+            return s3Error(403, "AccessDenied", "Forbidden");
+          }
+          const stat = await fs.stat(path);
+          const condition = DenoKvFs.evaluateConditions(
+            request,
+            stat?.type == "file" ? stat.file : null,
+          );
+          if (condition) {
+            return condition == 304
+              ? new Response(null, { status: 304 })
+              : s3Error(412, "PreconditionFailed", "A condition was not met.");
+          }
+          const fileOptions: SaveOptions = {
+            ...saveOptions,
+            ...{
+              path: path,
+              content: requestBody(request),
+              clientId: clientId,
+              metadata: {
+                ...saveOptions.metadata,
+                ...amzMetadata(request),
+              },
+            },
+          };
+          if (validateAccess) {
+            fileOptions.validateAccess = validateAccess;
+          }
+          const res = await fs.save(fileOptions);
+          if ("status" in res) {
+            return statusError(res);
+          }
+          return new Response(null, {
+            status: 200,
+            headers: { "ETag": DenoKvFs.etag(res) || "" },
+          });
+        }
+        case "POST": {
+          if (query.has("uploads")) { //CreateMultipartUpload
+            const uploadOptions: UploadOptions = {
+              path: path,
+              metadata: {
+                ...saveOptions.metadata,
+                ...amzMetadata(request),
+              },
+              clientId: clientId,
+            };
+            if (saveOptions.maxFileSizeBytes !== undefined) {
+              uploadOptions.maxFileSizeBytes = saveOptions.maxFileSizeBytes;
+            }
+            if (saveOptions.allowedExtensions !== undefined) {
+              uploadOptions.allowedExtensions = saveOptions.allowedExtensions;
+            }
+            if (validateAccess) {
+              uploadOptions.validateAccess = validateAccess;
+            }
+            const upload = await fs.createUpload(uploadOptions);
+            if ("status" in upload) {
+              return statusError(upload);
+            }
+            return xmlResponse(
+              `<InitiateMultipartUploadResult xmlns="${s3Namespace}">` +
+                `<Bucket>${escapeXml(path[0])}</Bucket>` +
+                `<Key>${escapeXml(key)}</Key>` +
+                `<UploadId>${upload.id}</UploadId>` +
+                `</InitiateMultipartUploadResult>`,
+            );
+          }
+          if (uploadId) { //CompleteMultipartUpload
+            const upload = await fs.getUpload(uploadId);
+            if (!upload || upload.URIComponent != fs.pathToURIComponent(path)) {
+              return s3Error(
+                404,
+                "NoSuchUpload",
+                `The upload ${uploadId} does not exist.`,
+              );
+            }
+            //the listed parts are joined, the other uploaded ones are discarded
+            const parts = [
+              ...(await request.text()).matchAll(
+                /<PartNumber>\s*(\d+)\s*<\/PartNumber>/g,
+              ),
+            ].map((m) => parseInt(m[1]));
+            if (parts.some((part, i) => i > 0 && part <= parts[i - 1])) {
+              return s3Error(
+                400,
+                "InvalidPartOrder",
+                "The parts must be listed in ascending order.",
+              );
+            }
+            const file = await fs.finishUpload(uploadId, {
+              ...readOptions,
+              ...{ parts: parts },
+            });
+            if ("status" in file) {
+              return statusError(
+                file,
+                file.msg?.includes("were not uploaded")
+                  ? "InvalidPart"
+                  : undefined,
+              );
+            }
+            return xmlResponse(
+              `<CompleteMultipartUploadResult xmlns="${s3Namespace}">` +
+                `<Location>${escapeXml(url.origin + url.pathname)}</Location>` +
+                `<Bucket>${escapeXml(path[0])}</Bucket>` +
+                `<Key>${escapeXml(key)}</Key>` +
+                `<ETag>${escapeXml(DenoKvFs.etag(file) || "")}</ETag>` +
+                `</CompleteMultipartUploadResult>`,
+            );
+          }
+          return s3Error(
+            501,
+            "NotImplemented",
+            "The operation is not supported.",
+          );
+        }
+        case "DELETE": {
+          if (uploadId) { //AbortMultipartUpload
+            const upload = await fs.getUpload(uploadId);
+            if (!upload || upload.URIComponent != fs.pathToURIComponent(path)) {
+              return s3Error(
+                404,
+                "NoSuchUpload",
+                `The upload ${uploadId} does not exist.`,
+              );
+            }
+            const status = await fs.abortUpload(uploadId, readOptions);
+            return status
+              ? statusError(status)
+              : new Response(null, { status: 204 });
+          }
+          if (isDir) { //only empty "folder" objects are removed
+            const status = await fs.rmdir(readOptions);
+            const msg = status?.msg || "";
+            if (status && !msg.includes("not found")) { //nothing for missing keys
+              return msg.includes("not empty")
+                ? s3Error(409, "OperationAborted", msg)
+                : statusError(status);
+            }
+            return new Response(null, { status: 204 });
+          }
+          const status = await fs.delete(readOptions); //nothing for missing keys
+          return status
+            ? statusError(status)
+            : new Response(null, { status: 204 });
+        }
+        default:
+          return s3Error(405, "MethodNotAllowed", "The method is not allowed.");
+      }
+    } catch (e) {
+      return s3Error(
+        500,
+        "InternalError",
+        (e as Error).message || JSON.stringify(e),
+      );
+    }
+  };
+}
+
+export { createS3Handler };
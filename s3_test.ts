@@ -0,0 +1,166 @@
+import { DenoKvFs, MemoryBackend } from "./mod.ts";
+import { createS3Handler } from "./s3.ts";
+import { assert, assertEquals } from "./dev_deps.ts";
+
+function setup(
+  validateAccess?: (path: string[], request: Request) => boolean,
+): {
+  fs: DenoKvFs;
+  s3: (request: Request) => Promise<Response>;
+} & AsyncDisposable {
+  const kv = new MemoryBackend();
+  const fs = new DenoKvFs(kv);
+  return {
+    fs: fs,
+    s3: createS3Handler(fs, { basePath: "/s3", validateAccess }),
+    async [Symbol.asyncDispose]() {
+      await fs.close();
+      kv.close();
+    },
+  };
+}
+
+async function send(
+  s3: (request: Request) => Promise<Response>,
+  method: string,
+  url: string,
+  body?: string,
+): Promise<Response> {
+  return await s3(
+    new Request(`http://x/s3/${url}`, { method: method, body: body }),
+  );
+}
+
+async function createUpload(
+  s3: (request: Request) => Promise<Response>,
+  key: string,
+): Promise<string> {
+  const created = await (await send(s3, "POST", `${key}?uploads`)).text();
+  return /<UploadId>(.*)<\/UploadId>/.exec(created)![1];
+}
+
+function completeBody(parts: number[]): string {
+  return `<CompleteMultipartUpload>${
+    parts.map((n) => `<Part><PartNumber>${n}</PartNumber></Part>`).join("")
+  }</CompleteMultipartUpload>`;
+}
+
+Deno.test("PutObject, GetObject and ListObjectsV2", async () => {
+  await using env = setup();
+  const { s3 } = env;
+  const put = await send(s3, "PUT", "bucket/dir/a.txt", "abc");
+  assertEquals(put.status, 200);
+  assert(put.headers.get("ETag"));
+  const get = await send(s3, "GET", "bucket/dir/a.txt");
+  assertEquals(await get.text(), "abc");
+  const list = await (await send(
+    s3,
+    "GET",
+    "bucket?list-type=2&prefix=dir/&delimiter=/",
+  )).text();
+  assert(list.includes("<Key>dir/a.txt</Key>"));
+  assert(list.includes("<KeyCount>1</KeyCount>"));
+});
+
+Deno.test("multipart parts can arrive in any order and be sent again", async () => {
+  await using env = setup();
+  const { s3 } = env;
+  const id = await createUpload(s3, "bucket/big.txt");
+  for (const [part, body] of [[2, "BB"], [1, "xx"], [3, "CC"], [1, "AA"]]) {
+    const res = await send(
+      s3,
+      "PUT",
+      `bucket/big.txt?partNumber=${part}&uploadId=${id}`,
+      body as string,
+    );
+    await res.body?.cancel();
+    assertEquals(res.status, 200);
+    assert(res.headers.get("ETag"));
+  }
+  const unordered = await send(
+    s3,
+    "POST",
+    `bucket/big.txt?uploadId=${id}`,
+    completeBody([2, 1]),
+  );
+  assert((await unordered.text()).includes("InvalidPartOrder"));
+  const missing = await send(
+    s3,
+    "POST",
+    `bucket/big.txt?uploadId=${id}`,
+    completeBody([1, 4]),
+  );
+  assert((await missing.text()).includes("InvalidPart"));
+  const complete = await send(
+    s3,
+    "POST",
+    `bucket/big.txt?uploadId=${id}`,
+    completeBody([1, 2, 3]),
+  );
+  assertEquals(complete.status, 200);
+  await complete.body?.cancel();
+  assertEquals(
+    await (await send(s3, "GET", "bucket/big.txt")).text(),
+    "AABBCC",
+  );
+});
+
+Deno.test("the multipart requests check the access", async () => {
+  let allowed = true;
+  await using env = setup(() => allowed);
+  const { fs, s3 } = env;
+  const id = await createUpload(s3, "bucket/f.txt");
+  allowed = false;
+  const requests: [string, string, string?][] = [
+    ["PUT", `bucket/f.txt?partNumber=1&uploadId=${id}`, "x"],
+    ["POST", `bucket/f.txt?uploadId=${id}`, completeBody([1])],
+    ["DELETE", `bucket/f.txt?uploadId=${id}`],
+  ];
+  for (const [method, url, body] of requests) {
+    const res = await send(s3, method, url, body);
+    await res.body?.cancel();
+    assertEquals(res.status, 403);
+  }
+  assert(await fs.getUpload(id));
+});
+
+Deno.test("requests without access do not tell whether a key exists", async () => {
+  await using env = setup((path) => path[0] != "private");
+  const { fs, s3 } = env;
+  await fs.save({ path: ["private", "a.txt"], content: "a" });
+  for (const bucket of ["private", "other"]) {
+    const head = await send(s3, "HEAD", bucket);
+    assertEquals(head.status, bucket == "private" ? 403 : 404);
+  }
+  for (const key of ["a.txt", "missing.txt"]) {
+    const res = await s3(
+      new Request(`http://x/s3/private/${key}`, {
+        method: "PUT",
+        headers: { "If-None-Match": "*" },
+        body: "b",
+      }),
+    );
+    await res.body?.cancel();
+    assertEquals(res.status, 403);
+  }
+});
+
+Deno.test("DeleteObject of a folder answers its errors", async () => {
+  let allowed = true;
+  await using env = setup(() => allowed);
+  const { fs, s3 } = env;
+  await fs.save({ path: ["bucket", "d", "a.txt"], content: "a" });
+  await fs.mkdir({ path: ["bucket", "e"] });
+  const notEmpty = await send(s3, "DELETE", "bucket/d/");
+  await notEmpty.body?.cancel();
+  assertEquals(notEmpty.status, 409);
+  assertEquals((await send(s3, "DELETE", "bucket/missing/")).status, 204);
+  allowed = false;
+  const forbidden = await send(s3, "DELETE", "bucket/e/");
+  await forbidden.body?.cancel();
+  assertEquals(forbidden.status, 403);
+  assertEquals((await fs.stat(["bucket", "e"]))?.type, "dir");
+  allowed = true;
+  assertEquals((await send(s3, "DELETE", "bucket/e/")).status, 204);
+  assertEquals(await fs.stat(["bucket", "e"]), null);
+});
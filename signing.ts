@@ -0,0 +1,173 @@
+type SignedOperation = "read" | "save" | "delete";
+interface SignedAccess {
+  path: string[];
+  operation: SignedOperation;
+  expiresAt: number;
+  recursive?: boolean; //also the files beneath the path (e.g. uploads of a form into a directory)
+  maxFileSizeBytes?: number; //save
+  allowedExtensions?: string[]; //save
+}
+interface SignOptions {
+  path: string[];
+  operation: SignedOperation;
+  expiresAt?: number;
+  expiresInMillis?: number; //used when expiresAt is undefined
+  recursive?: boolean;
+  maxFileSizeBytes?: number;
+  allowedExtensions?: string[];
+}
+const defaultSignOptions = {
+  expiresInMillis: 60 * 60 * 1000,
+  recursive: false,
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) {
+    bin += String.fromCharCode(b);
+  }
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const bin = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+//Creates and verifies HMAC-SHA256 tokens that grant an operation on a path
+//until they expire, so links can be handed out without sessions. The token is
+//the base64url access description and its signature, separated by a dot.
+class UrlSigner {
+  #secret: Uint8Array;
+  #key: CryptoKey | undefined;
+  #enc = new TextEncoder();
+  #dec = new TextDecoder();
+
+  constructor(secret: string | Uint8Array) {
+    this.#secret = typeof secret == "string"
+      ? this.#enc.encode(secret)
+      : secret;
+  }
+  async #hmacKey(): Promise<CryptoKey> {
+    if (!this.#key) {
+      this.#key = await crypto.subtle.importKey(
+        "raw",
+        this.#secret as BufferSource,
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"],
+      );
+    }
+    return this.#key;
+  }
+  async sign(options: SignOptions): Promise<string> {
+    options = { ...defaultSignOptions, ...options };
+    const access: SignedAccess = {
+      path: options.path,
+      operation: options.operation,
+      expiresAt: options.expiresAt ?? Date.now() + options.expiresInMillis!,
+    };
+    if (options.recursive) {
+      access.recursive = true;
+    }
+    if (options.maxFileSizeBytes !== undefined) {
+      access.maxFileSizeBytes = options.maxFileSizeBytes;
+    }
+    if (options.allowedExtensions !== undefined) {
+      access.allowedExtensions = options.allowedExtensions;
+    }
+    const payload = this.#enc.encode(JSON.stringify(access));
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await this.#hmacKey(),
+      payload as BufferSource,
+    );
+    return `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`;
+  }
+  //The URL with the token in the "token" query parameter.
+  async signUrl(url: string | URL, options: SignOptions): Promise<string> {
+    const res = new URL(url);
+    res.searchParams.set("token", await this.sign(options));
+    return res.href;
+  }
+  //The access of a token, or null if it was tampered with or has expired.
+  async verify(token: string): Promise<SignedAccess | null> {
+    const [payload, signature] = token.split(".");
+    if (!payload || !signature) {
+      return null;
+    }
+    try {
+      const payloadBytes = fromBase64Url(payload);
+      const valid = await crypto.subtle.verify(
+        "HMAC",
+        await this.#hmacKey(),
+        fromBase64Url(signature) as BufferSource,
+        payloadBytes as BufferSource,
+      );
+      if (!valid) {
+        return null;
+      }
+      const access = JSON.parse(this.#dec.decode(payloadBytes)) as SignedAccess;
+      return access.expiresAt > Date.now() ? access : null;
+    } catch {
+      return null; //malformed base64 or JSON
+    }
+  }
+  //The access of the token of the request (the "token" query parameter) if it
+  //grants the operation on the path. The operation defaults to the one of the
+  //HTTP method. It can be used in validateAccess:
+  //validateAccess: async (path, request) => !!(await signer.verifyRequest(request, path))
+  async verifyRequest(
+    request: Request,
+    path: string[],
+    operation: SignedOperation | undefined = UrlSigner.operationOf(
+      request.method,
+    ),
+  ): Promise<SignedAccess | null> {
+    const token = new URL(request.url).searchParams.get("token");
+    if (!token || !operation) {
+      return null;
+    }
+    const access = await this.verify(token);
+    return access && UrlSigner.allows(access, path, operation) ? access : null;
+  }
+  static allows(
+    access: SignedAccess,
+    path: string[],
+    operation: SignedOperation,
+  ): boolean {
+    if (access.operation != operation) {
+      return false;
+    }
+    if (
+      access.recursive
+        ? path.length < access.path.length
+        : path.length != access.path.length
+    ) {
+      return false;
+    }
+    return access.path.every((p, i) => p == path[i]);
+  }
+  //The operation of an HTTP (or WebDAV) method, undefined for the ones that
+  //need more than one, like MOVE.
+  static operationOf(method: string): SignedOperation | undefined {
+    switch (method) {
+      case "GET":
+      case "HEAD":
+      case "PROPFIND":
+        return "read";
+      case "PUT":
+      case "POST":
+      case "MKCOL":
+      case "LOCK": //a lock keeps the others from saving
+      case "UNLOCK":
+        return "save";
+      case "DELETE":
+        return "delete";
+      default:
+        return undefined;
+    }
+  }
+}
+
+export { type SignedAccess, type SignedOperation, type SignOptions, UrlSigner };
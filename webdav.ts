@@ -0,0 +1,412 @@
+import { DenoKvFs } from "./mod.ts";
+import type { Dir, File, FileStatus } from "./mod.ts";
+import {
+  contentTypeOf,
+  createHttpHandler,
+  type HttpHandlerOptions,
+  requestContext,
+  statusCode,
+} from "./http.ts";
+
+interface DavLock {
+  token: string;
+  path: string[];
+  depth: "0" | "infinity";
+  owner: { href?: string; text?: string }; //sent by the client
+  expiresAt: number;
+}
+
+const davMethods =
+  "OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, MKCOL, MOVE, COPY, LOCK, UNLOCK";
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+//The text of an XML fragment, without its markup.
+function xmlText(value: string): string {
+  return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>|<[^>]*>/g, "$1")
+    .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+}
+
+//The href (or else the text) of the owner element of a LOCK body, its markup
+//is not kept, so the owner is sent back escaped.
+function lockOwner(body: string): DavLock["owner"] {
+  const owner = /<(?:\w+:)?owner[^>]*>([\s\S]*?)<\/(?:\w+:)?owner>/.exec(body)
+    ?.[1];
+  if (owner === undefined) {
+    return {};
+  }
+  const href = /<(?:\w+:)?href[^>]*>([\s\S]*?)<\/(?:\w+:)?href>/.exec(owner)
+    ?.[1];
+  return href !== undefined
+    ? { href: xmlText(href).trim() }
+    : { text: xmlText(owner).trim() };
+}
+
+function xmlResponse(body: string, status: number, headers = {}): Response {
+  return new Response(`<?xml version="1.0" encoding="utf-8"?>\n${body}`, {
+    status: status,
+    headers: { ...headers, ...{ "Content-Type": "application/xml" } },
+  });
+}
+
+//The metadata is exposed in its own namespace, each key as a property.
+function metadataProps(
+  metadata: Record<string, unknown> | undefined,
+): string {
+  let props = "";
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (/^[A-Za-z_][\w.-]*$/.test(key)) { //only the keys that are XML names
+      props += `<M:${key}>${
+        escapeXml(typeof value == "string" ? value : JSON.stringify(value))
+      }</M:${key}>`;
+    }
+  }
+  return props;
+}
+
+function davResponse(href: string, entry: File | Dir, isDir: boolean): string {
+  const name = entry.path[entry.path.length - 1] || "";
+  let props = `<D:displayname>${escapeXml(name)}</D:displayname>`;
+  if (isDir) {
+    props += `<D:resourcetype><D:collection/></D:resourcetype>`;
+  } else {
+    const file = entry as File;
+    props += `<D:resourcetype/>` +
+      `<D:getcontentlength>${file.size}</D:getcontentlength>` +
+      `<D:getcontenttype>${escapeXml(contentTypeOf(file))}</D:getcontenttype>`;
+    const etag = DenoKvFs.etag(file);
+    if (etag) {
+      props += `<D:getetag>${escapeXml(etag)}</D:getetag>`;
+    }
+    if (file.updatedAt !== undefined) {
+      props += `<D:getlastmodified>${
+        new Date(file.updatedAt).toUTCString()
+      }</D:getlastmodified>`;
+    }
+    if (file.createdAt !== undefined) {
+      props += `<D:creationdate>${
+        new Date(file.createdAt).toISOString()
+      }</D:creationdate>`;
+    }
+    props += metadataProps(file.metadata);
+  }
+  props += `<D:supportedlock><D:lockentry><D:lockscope><D:exclusive/>` +
+    `</D:lockscope><D:locktype><D:write/></D:locktype></D:lockentry>` +
+    `</D:supportedlock>`;
+  return `<D:response><D:href>${escapeXml(href)}</D:href><D:propstat>` +
+    `<D:prop>${props}</D:prop><D:status>HTTP/1.1 200 OK</D:status>` +
+    `</D:propstat></D:response>`;
+}
+
+function lockDiscovery(lock: DavLock): string {
+  return `<D:prop xmlns:D="DAV:"><D:lockdiscovery><D:activelock>` +
+    `<D:locktype><D:write/></D:locktype>` +
+    `<D:lockscope><D:exclusive/></D:lockscope>` +
+    `<D:depth>${lock.depth}</D:depth>` +
+    (lock.owner.href !== undefined
+      ? `<D:owner><D:href>${escapeXml(lock.owner.href)}</D:href></D:owner>`
+      : lock.owner.text
+      ? `<D:owner>${escapeXml(lock.owner.text)}</D:owner>`
+      : "") +
+    `<D:timeout>Second-${
+      Math.round((lock.expiresAt - Date.now()) / 1000)
+    }</D:timeout>` +
+    `<D:locktoken><D:href>${lock.token}</D:href></D:locktoken>` +
+    `</D:activelock></D:lockdiscovery></D:prop>`;
+}
+
+//Serves the files over WebDAV (class 1 and 2) for file managers and tools like
+//rclone. GET, HEAD and PUT are answered by createHttpHandler. The locks are
+//kept by the handler, while the files are protected by the DenoKvFs locks.
+function createWebDavHandler(
+  fs: DenoKvFs,
+  options: HttpHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const basePath = (options.basePath || "").replace(/\/+$/, "");
+  const httpHandler = createHttpHandler(fs, options);
+  const locks = new Map<string, DavLock>(); //by URIComponent
+  const href = (path: string[], isDir: boolean) =>
+    `${basePath}/${fs.pathToURIComponent(path)}${
+      isDir && path.length > 0 ? "/" : ""
+    }`;
+  //the lock on the path, or on a parent with an infinite depth
+  const lockOf = (path: string[]): DavLock | undefined => {
+    for (let i = path.length; i >= 0; i--) {
+      const uri = fs.pathToURIComponent(path.slice(0, i));
+      const lock = locks.get(uri);
+      if (lock && lock.expiresAt <= Date.now()) {
+        locks.delete(uri);
+      } else if (lock && (i == path.length || lock.depth == "infinity")) {
+        return lock;
+      }
+    }
+    return undefined;
+  };
+  //a locked resource is changed only by the requests with its token
+  const isLocked = (path: string[], request: Request): boolean => {
+    const lock = lockOf(path);
+    return !!lock && !(request.headers.get("If") || "").includes(lock.token);
+  };
+  const locked = () => new Response(null, { status: 423 });
+  return async (request: Request): Promise<Response> => {
+    const context = await requestContext(fs, options, request);
+    if (typeof context == "number") {
+      return new Response(null, { status: context });
+    }
+    const { path, readOptions, validateAccess } = context;
+    try {
+      switch (request.method) {
+        case "OPTIONS":
+          return new Response(null, {
+            headers: {
+              "DAV": "1, 2",
+              "Allow": davMethods,
+              "MS-Author-Via": "DAV",
+            },
+          });
+        case "GET":
+        case "HEAD":
+          return await httpHandler(request);
+        case "PUT":
+          if (isLocked(path, request)) {
+            return locked();
+          }
+          return await httpHandler(request);
+        case "PROPFIND": {
+          if (validateAccess && !(await validateAccess(path))) {
+            return new Response(null, { status: 403 });
+          }
+          const target = await fs.stat(path);
+          if (!target) {
+            return new Response(null, { status: 404 });
+          }
+          const depth = request.headers.get("Depth") || "infinity";
+          let responses = "";
+          if (target.type == "file") {
+            responses += davResponse(href(path, false), target.file, false);
+          } else {
+            responses += davResponse(href(path, true), target.dir, true);
+            //the directories are walked with shallow listings, to also list the empty ones
+            const pending: string[][] = depth == "0" ? [] : [path];
+            while (pending.length > 0) {
+              const dirPath = pending.shift()!;
+              let cursor: string | undefined;
+              do {
+                const list = await fs.readDir({
+                  ...readOptions,
+                  ...{
+                    path: dirPath,
+                    shallow: true,
+                    pagination: true,
+                    cursor: cursor,
+                  },
+                });
+                for (const dir of list.dirs || []) {
+                  responses += davResponse(href(dir.path, true), dir, true);
+                  if (depth == "infinity") {
+                    pending.push(dir.path);
+                  }
+                }
+                for (const file of list.files) {
+                  if (!("status" in file)) {
+                    await file.content?.cancel();
+                    responses += davResponse(
+                      href(file.path, false),
+                      file,
+                      false,
+                    );
+                  }
+                }
+                cursor = list.cursor;
+              } while (cursor);
+            }
+          }
+          return xmlResponse(
+            `<D:multistatus xmlns:D="DAV:" xmlns:M="urn:deno-kv-fs:metadata">${responses}</D:multistatus>`,
+            207,
+          );
+        }
+        case "MKCOL": {
+          if (request.body && (await request.arrayBuffer()).byteLength > 0) {
+            return new Response(null, { status: 415 });
+          }
+          if (path.length == 0 || await fs.stat(path)) {
+            return new Response(null, { status: 405 }); //it already exists
+          }
+          if (path.length > 1 && !(await fs.stat(path.slice(0, -1)))) {
+            return new Response(null, { status: 409 }); //the parent is missing
+          }
+          if (isLocked(path, request)) {
+            return locked();
+          }
+          const dir = await fs.mkdir(readOptions);
+          return "status" in dir
+            ? new Response(null, { status: statusCode(dir) })
+            : new Response(null, { status: 201 });
+        }
+        case "DELETE": {
+          if (path.length == 0) {
+            return new Response(null, { status: 403 }); //not the whole tree
+          }
+          const target = await fs.stat(path);
+          if (!target) {
+            return new Response(null, { status: 404 });
+          }
+          if (isLocked(path, request)) {
+            return locked();
+          }
+          const errors: FileStatus[] = target.type == "file"
+            ? [await fs.delete(readOptions)].filter((s) => !!s) as FileStatus[]
+            : await fs.deleteDir(readOptions);
+          return errors.length > 0
+            ? new Response(null, { status: statusCode(errors[0]) })
+            : new Response(null, { status: 204 });
+        }
+        case "MOVE":
+        case "COPY": {
+          const destination = request.headers.get("Destination");
+          const to = destination
+            ? await requestContext(
+              fs,
+              options,
+              request,
+              new URL(destination, request.url).href,
+            )
+            : undefined;
+          if (typeof to != "object" || to.path.length == 0) {
+            return new Response(null, { status: 400 });
+          }
+          //a collection is moved with its members, and copied with them or alone
+          const depth = request.headers.get("Depth") || "infinity";
+          if (
+            depth != "infinity" && (request.method == "MOVE" || depth != "0")
+          ) {
+            return new Response(null, { status: 400 });
+          }
+          const target = await fs.stat(path);
+          if (!target) {
+            return new Response(null, { status: 404 });
+          }
+          if (
+            isLocked(to.path, request) ||
+            (request.method == "MOVE" && isLocked(path, request))
+          ) {
+            return locked();
+          }
+          const existing = await fs.stat(to.path);
+          if (existing) {
+            if (request.headers.get("Overwrite") == "F") {
+              return new Response(null, { status: 412 });
+            }
+            if (existing.type == "dir") {
+              await fs.deleteDir(to.readOptions);
+            }
+          }
+          const moveOptions = {
+            ...readOptions,
+            ...{
+              to: to.path,
+              allowedExtensions: to.saveOptions.allowedExtensions,
+            },
+          };
+          let errors: FileStatus[];
+          if (target.type == "file") {
+            const res = request.method == "MOVE"
+              ? await fs.move(moveOptions)
+              : await fs.copy(moveOptions);
+            errors = "status" in res ? [res] : [];
+          } else {
+            if (path.length == 0) {
+              return new Response(null, { status: 403 });
+            }
+            await fs.mkdir(to.readOptions); //the directory exists even if empty
+            errors = request.method == "MOVE"
+              ? await fs.moveDir(moveOptions)
+              : depth == "0"
+              ? []
+              : await fs.copyDir(moveOptions);
+            if (request.method == "MOVE" && errors.length == 0) {
+              await fs.deleteDir(readOptions); //the emptied directories
+            }
+          }
+          if (errors.length > 0) {
+            return new Response(null, { status: statusCode(errors[0]) });
+          }
+          return new Response(null, { status: existing ? 204 : 201 });
+        }
+        case "LOCK": {
+          if (validateAccess && !(await validateAccess(path))) {
+            return new Response(null, { status: 403 });
+          }
+          const timeout = /Second-(\d+)/.exec(
+            request.headers.get("Timeout") || "",
+          );
+          const expiresAt = Date.now() +
+            Math.min(parseInt(timeout?.[1] || "3600"), 86400) * 1000;
+          const current = lockOf(path);
+          const body = await request.text();
+          if (!body) { //refreshes the lock of the token in the "If" header
+            if (!current || isLocked(path, request)) {
+              return new Response(null, { status: 412 });
+            }
+            current.expiresAt = expiresAt;
+            return xmlResponse(lockDiscovery(current), 200);
+          }
+          if (current) {
+            return locked();
+          }
+          const lock: DavLock = {
+            token: `opaquelocktoken:${crypto.randomUUID()}`,
+            path: path,
+            depth: request.headers.get("Depth") == "0" ? "0" : "infinity",
+            owner: lockOwner(body),
+            expiresAt: expiresAt,
+          };
+          let status = 200;
+          if (!(await fs.stat(path))) { //locking an unmapped URL creates an empty file
+            const res = await fs.save({
+              ...readOptions,
+              ...{ content: new Uint8Array() },
+            });
+            if ("status" in res) {
+              return new Response(null, { status: statusCode(res) });
+            }
+            status = 201;
+          }
+          locks.set(fs.pathToURIComponent(path), lock);
+          return xmlResponse(lockDiscovery(lock), status, {
+            "Lock-Token": `<${lock.token}>`,
+          });
+        }
+        case "UNLOCK": {
+          if (validateAccess && !(await validateAccess(path))) {
+            return new Response(null, { status: 403 });
+          }
+          const lock = lockOf(path);
+          const token = (request.headers.get("Lock-Token") || "")
+            .replace(/[<>]/g, "");
+          if (!lock || lock.token != token) {
+            return new Response(null, { status: 409 });
+          }
+          locks.delete(fs.pathToURIComponent(lock.path));
+          return new Response(null, { status: 204 });
+        }
+        default:
+          return new Response(null, {
+            status: 405,
+            headers: { "Allow": davMethods },
+          });
+      }
+    } catch (e) {
+      return new Response((e as Error).message || JSON.stringify(e), {
+        status: 500,
+      });
+    }
+  };
+}
+
+export { createWebDavHandler };
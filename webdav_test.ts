@@ -0,0 +1,178 @@
+import { DenoKvFs, MemoryBackend } from "./mod.ts";
+import { createWebDavHandler } from "./webdav.ts";
+import type { HttpHandlerOptions } from "./http.ts";
+import { assert, assertEquals } from "./dev_deps.ts";
+
+function setup(options: HttpHandlerOptions = {}): {
+  fs: DenoKvFs;
+  dav: (request: Request) => Promise<Response>;
+} & AsyncDisposable {
+  const kv = new MemoryBackend();
+  const fs = new DenoKvFs(kv);
+  return {
+    fs: fs,
+    dav: createWebDavHandler(fs, { ...options, ...{ basePath: "/dav" } }),
+    async [Symbol.asyncDispose]() {
+      await fs.close();
+      kv.close();
+    },
+  };
+}
+
+const lockBody = '<?xml version="1.0"?><D:lockinfo xmlns:D="DAV:">' +
+  "<D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/>" +
+  "</D:locktype></D:lockinfo>";
+
+async function send(
+  dav: (request: Request) => Promise<Response>,
+  method: string,
+  path: string,
+  headers: Record<string, string> = {},
+  body?: string,
+): Promise<Response> {
+  return await dav(
+    new Request(`http://x/dav/${path}`, {
+      method: method,
+      headers: headers,
+      body: body,
+    }),
+  );
+}
+
+Deno.test("PROPFIND lists the directories with their depth", async () => {
+  await using env = setup();
+  const { fs, dav } = env;
+  await fs.save({ path: ["d", "a.txt"], content: "abc" });
+  await fs.save({ path: ["d", "e", "b.txt"], content: "b" });
+  const one = await send(dav, "PROPFIND", "d/", { Depth: "1" });
+  assertEquals(one.status, 207);
+  const body = await one.text();
+  assert(body.includes("<D:href>/dav/d/a.txt</D:href>"));
+  assert(body.includes("<D:getcontentlength>3</D:getcontentlength>"));
+  assert(body.includes("<D:href>/dav/d/e/</D:href>"));
+  assert(!body.includes("b.txt"));
+  const all = await (await send(dav, "PROPFIND", "d/")).text();
+  assert(all.includes("<D:href>/dav/d/e/b.txt</D:href>"));
+});
+
+Deno.test("MKCOL, PUT, MOVE and DELETE", async () => {
+  await using env = setup();
+  const { fs, dav } = env;
+  assertEquals((await send(dav, "MKCOL", "d")).status, 201);
+  assertEquals((await send(dav, "MKCOL", "d")).status, 405);
+  assertEquals((await send(dav, "MKCOL", "x/y")).status, 409);
+  assertEquals((await send(dav, "PUT", "d/a.txt", {}, "abc")).status, 201);
+  const moved = await send(dav, "MOVE", "d/a.txt", {
+    Destination: "http://x/dav/d/b.txt",
+  });
+  assertEquals(moved.status, 201);
+  assertEquals(await fs.stat(["d", "a.txt"]), null);
+  assertEquals(await (await send(dav, "GET", "d/b.txt")).text(), "abc");
+  assertEquals((await send(dav, "DELETE", "d/")).status, 204);
+  assertEquals(await fs.stat(["d", "b.txt"]), null);
+  assertEquals((await send(dav, "DELETE", "")).status, 403);
+});
+
+Deno.test("MOVE and COPY keep the allowed extensions", async () => {
+  await using env = setup({ saveOptions: { allowedExtensions: ["txt"] } });
+  const { fs, dav } = env;
+  assertEquals((await send(dav, "PUT", "a.txt", {}, "<script>")).status, 201);
+  for (const method of ["MOVE", "COPY"]) {
+    const res = await send(dav, method, "a.txt", {
+      Destination: "http://x/dav/a.html",
+    });
+    assertEquals(res.status, 415);
+  }
+  assertEquals(await fs.stat(["a.html"]), null);
+  assertEquals((await fs.stat(["a.txt"]))?.type, "file");
+});
+
+Deno.test("COPY honors the Depth of directories", async () => {
+  await using env = setup();
+  const { fs, dav } = env;
+  await fs.save({ path: ["d", "a.txt"], content: "a" });
+  const shallow = await send(dav, "COPY", "d/", {
+    Destination: "http://x/dav/c/",
+    Depth: "0",
+  });
+  assertEquals(shallow.status, 201);
+  assertEquals((await fs.stat(["c"]))?.type, "dir");
+  assertEquals(await fs.stat(["c", "a.txt"]), null);
+  const deep = await send(dav, "COPY", "d/", {
+    Destination: "http://x/dav/e/",
+  });
+  assertEquals(deep.status, 201);
+  assertEquals((await fs.stat(["e", "a.txt"]))?.type, "file");
+  const invalid = await send(dav, "MOVE", "d/", {
+    Destination: "http://x/dav/f/",
+    Depth: "0",
+  });
+  assertEquals(invalid.status, 400);
+});
+
+Deno.test("a locked file is only changed with its token", async () => {
+  await using env = setup();
+  const { dav } = env;
+  const lock = await send(dav, "LOCK", "a.txt", {}, lockBody);
+  assertEquals(lock.status, 201);
+  await lock.body?.cancel();
+  const token = lock.headers.get("Lock-Token")!;
+  assertEquals((await send(dav, "PUT", "a.txt", {}, "x")).status, 423);
+  const put = await send(dav, "PUT", "a.txt", { If: `(${token})` }, "x");
+  await put.body?.cancel();
+  assertEquals(put.status, 200);
+  const unlock = await send(dav, "UNLOCK", "a.txt", { "Lock-Token": token });
+  assertEquals(unlock.status, 204);
+  const after = await send(dav, "PUT", "a.txt", {}, "y");
+  await after.body?.cancel();
+  assertEquals(after.status, 200);
+});
+
+Deno.test("LOCK and UNLOCK need access to the path", async () => {
+  await using env = setup({ validateAccess: (path) => path[0] != "private" });
+  const { fs, dav } = env;
+  await fs.save({ path: ["private", "a.txt"], content: "a" });
+  for (const path of ["private/a.txt", "private/"]) {
+    const lock = await send(dav, "LOCK", path, { Depth: "infinity" }, lockBody);
+    assertEquals(lock.status, 403);
+    const unlock = await send(dav, "UNLOCK", path, {
+      "Lock-Token": "<opaquelocktoken:x>",
+    });
+    assertEquals(unlock.status, 403);
+  }
+  const allowed = await send(dav, "LOCK", "a.txt", {}, lockBody);
+  await allowed.body?.cancel();
+  assertEquals(allowed.status, 201);
+});
+
+Deno.test("the owner of a lock is sent back escaped", async () => {
+  await using env = setup();
+  const { dav } = env;
+  const owners = [
+    ["<D:href>mailto:a&amp;b@x</D:href>", "<D:href>mailto:a&amp;b@x</D:href>"],
+    ["Jo &lt;jo&gt;<x:unbalanced>", "Jo &lt;jo&gt;"],
+    ['<a href="x"><script>alert(1)</script></a>', "alert(1)"],
+  ];
+  for (const [i, [owner, expected]] of owners.entries()) {
+    const res = await send(
+      dav,
+      "LOCK",
+      `${i}.txt`,
+      {},
+      lockBody.replace(
+        "</D:lockinfo>",
+        `<D:owner>${owner}</D:owner></D:lockinfo>`,
+      ),
+    );
+    const body = await res.text();
+    assert(body.includes(`<D:owner>${expected}</D:owner>`), body);
+    assert(!body.includes("<script>") && !body.includes("unbalanced"));
+  }
+});
+
+Deno.test("malformed URIs are bad requests", async () => {
+  await using env = setup();
+  const { dav } = env;
+  assertEquals((await send(dav, "PROPFIND", "%E0%A4%A")).status, 400);
+  assertEquals((await dav(new Request("http://x/other"))).status, 404);
+});